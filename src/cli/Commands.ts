@@ -0,0 +1,304 @@
+/**
+ * CLI Commands
+ *
+ * The subcommands of the uiforge command-line tool. Each returns a result
+ * that the entry point prints as text or JSON, with an exit code: 0 when
+ * the UI is clean, 1 when errors were found.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { basename, join, resolve } from 'node:path'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import { serializeUIFile, serializeManifest } from '@/core/parser/XmlSerializer'
+import { createUIPackage, getPackageFolderName } from '@/core/export/UIPackage'
+import { REFERENCE_LIBRARIES } from '@/core/schema/PropertyBindings'
+import {
+  runLint,
+  validateLintConfig,
+  forEachDefinedPiece,
+  type LintConfig,
+  type LintContext,
+} from '@/core/lint/LintEngine'
+import { LINT_RULES, unresolvedReferenceRule } from '@/core/lint/LintRules'
+import { readUIFolder, type FileProblem, type UIFolder, type UIFolderOptions } from './UIFolder'
+
+/** Lint config picked up from the UI folder when --config isn't given */
+export const LINT_CONFIG_FILENAME = 'uiforge-lint.json'
+
+export const EXIT_OK = 0
+export const EXIT_PROBLEMS = 1 // The UI has errors, or format --check found changes
+export const EXIT_FAILURE = 2 // The command could not run
+
+/** Options shared by the commands */
+export interface CommandOptions extends UIFolderOptions {
+  config?: string // lint: config file
+  out?: string // format: folder to write to; package: zip path
+  write?: boolean // format: rewrite the files in place
+  check?: boolean // format: report files that would change without writing
+  name?: string // package: folder name inside the zip
+}
+
+/** What a command produced */
+export interface CommandResult {
+  exitCode: number
+  output: unknown // Printed with --json
+  lines: string[] // Printed otherwise
+}
+
+/**
+ * Parse every file and check its references and schema
+ */
+export async function validate(path: string, options: CommandOptions): Promise<CommandResult> {
+  const folder = await readUIFolder(path, options)
+  const problems = [...folder.problems, ...runLint(getLintContext(folder), [unresolvedReferenceRule])]
+  return reportProblems(folder, problems)
+}
+
+/**
+ * Run the lint rules with the folder's config
+ */
+export async function lint(path: string, options: CommandOptions): Promise<CommandResult> {
+  const config = await readLintConfig(options.config ?? join(path, LINT_CONFIG_FILENAME), !options.config)
+  const folder = await readUIFolder(path, { ...options, validateSchema: false })
+  return reportProblems(folder, runLint(getLintContext(folder), LINT_RULES, config))
+}
+
+/**
+ * Rewrite every file the way the serializer writes it, which drops comments,
+ * so files are only overwritten with --write. Files that fail to parse are
+ * left alone, since rewriting them would lose content.
+ */
+export async function format(path: string, options: CommandOptions): Promise<CommandResult> {
+  if (!options.out && !options.write && !options.check) {
+    throw new Error('format needs --out <folder>, --write to rewrite the files in place, or --check')
+  }
+
+  const folder = await readUIFolder(path, { ...options, validateSchema: false })
+  const outDir = options.out ?? path
+  const problems: FileProblem[] = []
+  const changed: string[] = []
+  const written: string[] = []
+
+  for (const source of folder.sources) {
+    const fileProblems = folder.problems.filter(
+      (problem) => problem.filename === source.name && problem.severity !== 'warning'
+    )
+    if (fileProblems.length > 0) {
+      problems.push(...fileProblems)
+      continue
+    }
+
+    let formatted: string
+    if (source === folder.manifest) {
+      formatted = serializeManifest(folder.project.includes ?? [])
+    } else {
+      const file = folder.project.files.find((f) => f.filename === source.name)
+      if (!file) continue
+      formatted = serializeUIFile(file)
+    }
+
+    const isChanged = formatted !== source.content
+    if (isChanged) changed.push(source.name)
+    if (options.check || (!isChanged && !options.out)) continue
+
+    await mkdir(outDir, { recursive: true })
+    await writeFile(join(outDir, source.name), formatted, 'utf8')
+    written.push(source.name)
+  }
+
+  const lines = [
+    ...problems.map(formatProblem),
+    ...(options.check ? changed.map((name) => `Would reformat ${name}`) : written.map((name) => `Wrote ${join(outDir, name)}`)),
+    `${folder.sources.length} files, ${changed.length} ${options.check ? 'need formatting' : 'reformatted'}, ${new Set(problems.map((p) => p.filename)).size} skipped`,
+  ]
+  return {
+    exitCode: problems.length > 0 || (options.check && changed.length > 0) ? EXIT_PROBLEMS : EXIT_OK,
+    output: {
+      folder: folder.path,
+      check: !!options.check,
+      changed,
+      written,
+      problems: problems.map(toOutputProblem),
+    },
+    lines,
+  }
+}
+
+/**
+ * Zip the UI with a regenerated EQUI.xml and its textures
+ */
+export async function packageUI(path: string, options: CommandOptions): Promise<CommandResult> {
+  const folder = await readUIFolder(path, { ...options, validateSchema: false })
+  const errors = folder.problems.filter((problem) => problem.severity !== 'warning')
+  if (errors.length > 0) {
+    return {
+      exitCode: EXIT_PROBLEMS,
+      output: { folder: folder.path, problems: errors.map(toOutputProblem) },
+      lines: [...errors.map(formatProblem), 'Not packaged: fix the errors above first'],
+    }
+  }
+
+  if (options.name) folder.project.name = options.name
+  const textures = await Promise.all(
+    folder.textures.map(async (texture) => ({ filename: basename(texture), source: new Blob([await readFile(texture)]) }))
+  )
+  const zip = await createUIPackage(folder.project, textures)
+  const out = options.out ?? `${getPackageFolderName(folder.project)}.zip`
+  await writeFile(out, Buffer.from(await zip.arrayBuffer()))
+
+  return {
+    exitCode: EXIT_OK,
+    output: {
+      folder: folder.path,
+      package: resolve(out),
+      files: folder.project.files.map((file) => file.filename),
+      textures: textures.map((texture) => texture.filename),
+      size: zip.size,
+    },
+    lines: [`Wrote ${out}: ${folder.project.files.length} files, ${textures.length} textures, ${zip.size} bytes`],
+  }
+}
+
+/**
+ * Count screens, pieces and definitions per file
+ */
+export async function stats(path: string, options: CommandOptions): Promise<CommandResult> {
+  const folder = await readUIFolder(path, { ...options, validateSchema: false })
+  const typeNames = Object.fromEntries(
+    Object.entries(REFERENCE_LIBRARIES).map(([typeName, library]) => [library, typeName])
+  ) as Record<keyof TemplateLibrary, string>
+
+  const pieceTypes: Record<string, number> = {}
+  const definitions: Record<string, number> = {}
+  const files = folder.project.files.map((file) => {
+    const pieces: ScreenPiece[] = []
+    forEachDefinedPiece(file.screens, (piece) => pieces.push(piece))
+    for (const piece of pieces) {
+      pieceTypes[piece.type] = (pieceTypes[piece.type] ?? 0) + 1
+    }
+
+    let fileDefinitions = 0
+    for (const key of Object.keys(file.templates) as (keyof TemplateLibrary)[]) {
+      const count = file.templates[key].size
+      fileDefinitions += count
+      if (count > 0) definitions[typeNames[key]] = (definitions[typeNames[key]] ?? 0) + count
+    }
+
+    return {
+      filename: file.filename,
+      screens: file.screens.filter((screen) => screen.type === 'Screen').length,
+      pieces: pieces.length,
+      definitions: fileDefinitions,
+    }
+  })
+
+  const total = (key: 'screens' | 'pieces' | 'definitions') => files.reduce((sum, file) => sum + file[key], 0)
+  const output = {
+    folder: folder.path,
+    files: files.length,
+    screens: total('screens'),
+    pieces: total('pieces'),
+    definitions: total('definitions'),
+    textures: folder.textures.length,
+    pieceTypes: sortCounts(pieceTypes),
+    definitionTypes: sortCounts(definitions),
+    byFile: files,
+  }
+
+  const lines = [
+    `${output.files} files, ${output.screens} screens, ${output.pieces} pieces, ${output.definitions} definitions, ${output.textures} textures`,
+    '',
+    'Pieces:',
+    ...Object.entries(output.pieceTypes).map(([type, count]) => `  ${type.padEnd(24)} ${count}`),
+    '',
+    'Definitions:',
+    ...Object.entries(output.definitionTypes).map(([type, count]) => `  ${type.padEnd(24)} ${count}`),
+  ]
+  const hasErrors = folder.problems.some((problem) => problem.severity !== 'warning')
+  return { exitCode: hasErrors ? EXIT_PROBLEMS : EXIT_OK, output, lines }
+}
+
+/**
+ * What the lint rules check for a folder
+ */
+function getLintContext(folder: UIFolder): LintContext {
+  return { project: folder.project, textureFiles: folder.textureNames }
+}
+
+/**
+ * Read a lint config. A missing optional config means the defaults.
+ */
+async function readLintConfig(path: string, optional: boolean): Promise<LintConfig> {
+  let text: string
+  try {
+    text = await readFile(path, 'utf8')
+  } catch (err) {
+    if (optional && (err as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw err
+  }
+
+  let config: LintConfig
+  try {
+    config = JSON.parse(text) as LintConfig
+  } catch (err) {
+    throw new Error(`Invalid lint config ${path}: ${err instanceof Error ? err.message : err}`)
+  }
+  const messages = validateLintConfig(config, LINT_RULES)
+  if (messages.length > 0) {
+    throw new Error(`Invalid lint config ${path}:\n  ${messages.join('\n  ')}`)
+  }
+  return config
+}
+
+/**
+ * Result listing problems, failing when any is an error
+ */
+function reportProblems(folder: UIFolder, problems: FileProblem[]): CommandResult {
+  const sorted = [...problems].sort(
+    (a, b) => a.filename.localeCompare(b.filename) || (a.line ?? 0) - (b.line ?? 0)
+  )
+  const errors = sorted.filter((problem) => problem.severity !== 'warning').length
+  const warnings = sorted.length - errors
+
+  return {
+    exitCode: errors > 0 ? EXIT_PROBLEMS : EXIT_OK,
+    output: {
+      folder: folder.path,
+      schema: folder.schemaSource ?? null,
+      files: folder.project.files.length,
+      errors,
+      warnings,
+      problems: sorted.map(toOutputProblem),
+    },
+    lines: [
+      ...sorted.map(formatProblem),
+      `${folder.project.files.length} files, ${errors} errors, ${warnings} warnings`,
+    ],
+  }
+}
+
+/** A problem as written in JSON output, with its severity spelled out */
+function toOutputProblem(problem: FileProblem) {
+  return {
+    filename: problem.filename,
+    line: problem.line ?? null,
+    severity: problem.severity ?? 'error',
+    message: problem.message,
+    item: problem.item ?? null,
+    element: problem.element ?? null,
+    rule: problem.rule ?? null,
+  }
+}
+
+/** A problem as a compiler-style line: file:line: severity: message (item) [rule] */
+function formatProblem(problem: FileProblem): string {
+  const location = problem.line ? `${problem.filename}:${problem.line}` : problem.filename
+  const item = problem.item ? ` (${problem.item})` : ''
+  const rule = problem.rule ? ` [${problem.rule}]` : ''
+  return `${location}: ${problem.severity ?? 'error'}: ${problem.message}${item}${rule}`
+}
+
+function sortCounts(counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(counts).sort(([a, x], [b, y]) => y - x || a.localeCompare(b)))
+}
@@ -0,0 +1,156 @@
+/**
+ * UI Folder
+ *
+ * Reads a UI folder from disk the way the client does: the XML and texture
+ * files directly inside it, with any file it doesn't override taken from a
+ * base folder such as uifiles/default.
+ */
+
+import { readdir, readFile } from 'node:fs/promises'
+import { basename, join, resolve } from 'node:path'
+import type { UIProject } from '@/models/project/Project'
+import { createProject } from '@/models/project/Project'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import type { ParseError } from '@/core/parser/EquiParser'
+import { parseSidl, type SidlSchema } from '@/core/parser/SidlParser'
+import { loadProjectSources, overlaySources, type SourceFile } from '@/core/project/ProjectLoader'
+import DEFAULT_SIDL from '@/assets/sidl/SIDL.xml?raw'
+
+const TEXTURE_EXTENSIONS = ['.tga', '.dds', '.png', '.bmp', '.jpg', '.jpeg', '.gif']
+
+const SCHEMA_FILENAME = 'sidl.xml'
+
+/** A problem together with the file it was found in */
+export interface FileProblem extends ParseError {
+  filename: string
+  rule?: string // Lint rule that reported it
+}
+
+/** A UI folder loaded into a project */
+export interface UIFolder {
+  path: string
+  project: UIProject // The folder's own files, with base definitions in its library
+  sources: SourceFile[] // The folder's own XML files, SIDL.xml left out
+  manifest?: SourceFile // The folder's own EQUI.xml
+  problems: FileProblem[] // Parse and schema problems in the folder's own files
+  textures: string[] // Paths of the folder's texture files
+  textureNames: Set<string> // Lower-case names of every texture file, the base folder's included
+  schemaSource?: string // Where the schema came from, when files were checked against one
+}
+
+/** Options for reading a folder */
+export interface UIFolderOptions {
+  base?: string // Folder the client falls back to, e.g. uifiles/default
+  schema?: string // SIDL.xml to validate against
+  validateSchema?: boolean // Check files against the schema, default true
+}
+
+/**
+ * Read and parse a UI folder
+ */
+export async function readUIFolder(path: string, options: UIFolderOptions = {}): Promise<UIFolder> {
+  const own = await readFolderFiles(path)
+  const ownXml = own.xml.filter((source) => source.name.toLowerCase() !== SCHEMA_FILENAME)
+  if (ownXml.length === 0) {
+    throw new Error(`No XML files found in ${path}`)
+  }
+
+  const base = options.base ? await readFolderFiles(options.base) : undefined
+  const baseXml = (base?.xml ?? []).filter((source) => source.name.toLowerCase() !== SCHEMA_FILENAME)
+
+  // A schema named on the command line wins over the folder's own, then the base's
+  const { schema, schemaSource } =
+    options.validateSchema === false
+      ? { schema: undefined, schemaSource: undefined }
+      : await loadSchema(options.schema, [own, base])
+
+  const loaded = loadProjectSources(overlaySources(ownXml, baseXml), schema)
+  const project = createProject(basename(resolve(path)))
+  project.basePath = resolve(path)
+  project.includes = loaded.includes
+  if (options.base) {
+    project.baseName = basename(resolve(options.base))
+  }
+
+  const problems: FileProblem[] = []
+  for (const { parsed, content, layer } of loaded.files) {
+    // Definitions from every file resolve references, later files winning
+    for (const key of Object.keys(parsed.templates) as (keyof TemplateLibrary)[]) {
+      const target = project.templates[key] as Map<string, unknown>
+      for (const [name, value] of parsed.templates[key]) {
+        target.set(name, value)
+      }
+    }
+
+    if (layer === 'base') continue
+    project.files.push({
+      filename: parsed.filename,
+      screens: parsed.screens,
+      templates: parsed.templates,
+      isDirty: false,
+      originalXml: content,
+      layer,
+    })
+    problems.push(...parsed.errors.map((error) => ({ ...error, filename: parsed.filename })))
+  }
+
+  // Without a base folder, files the manifest lists are expected to come from the default UI
+  if (options.base) {
+    for (const name of loaded.missingIncludes) {
+      problems.push({ filename: 'EQUI.xml', message: `Included file ${name} was not found`, severity: 'error' })
+    }
+  }
+
+  return {
+    path,
+    project,
+    sources: ownXml,
+    manifest: ownXml.find((source) => source.name.toLowerCase() === 'equi.xml'),
+    problems,
+    textures: own.textures,
+    textureNames: new Set([...own.textures, ...(base?.textures ?? [])].map((texture) => basename(texture).toLowerCase())),
+    schemaSource,
+  }
+}
+
+/**
+ * XML contents and texture paths directly inside a folder
+ */
+async function readFolderFiles(path: string): Promise<{ xml: SourceFile[]; textures: string[] }> {
+  const entries = await readdir(path, { withFileTypes: true })
+  const xml: SourceFile[] = []
+  const textures: string[] = []
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue
+    const lower = entry.name.toLowerCase()
+    if (lower.endsWith('.xml')) {
+      xml.push({ name: entry.name, content: await readFile(join(path, entry.name), 'utf8') })
+    } else if (TEXTURE_EXTENSIONS.some((ext) => lower.endsWith(ext))) {
+      textures.push(join(path, entry.name))
+    }
+  }
+
+  xml.sort((a, b) => a.name.localeCompare(b.name))
+  textures.sort()
+  return { xml, textures }
+}
+
+/**
+ * The schema to validate against and where it came from
+ */
+async function loadSchema(
+  path: string | undefined,
+  folders: ({ xml: SourceFile[] } | undefined)[]
+): Promise<{ schema: SidlSchema; schemaSource: string }> {
+  if (path) {
+    return { schema: parseSidl(await readFile(path, 'utf8')), schemaSource: path }
+  }
+  for (const folder of folders) {
+    const source = folder?.xml.find((file) => file.name.toLowerCase() === SCHEMA_FILENAME)
+    if (source) {
+      return { schema: parseSidl(source.content), schemaSource: source.name }
+    }
+  }
+  return { schema: { ...parseSidl(DEFAULT_SIDL), isPartial: true }, schemaSource: 'Bundled SIDL.xml' }
+}
@@ -0,0 +1,122 @@
+/**
+ * uiforge CLI
+ *
+ * Checks, formats and packages EverQuest UI folders from the command line,
+ * using the same parser, serializer and resolver as the editor.
+ */
+
+import { parseArgs } from 'node:util'
+import {
+  validate,
+  lint,
+  format,
+  packageUI,
+  stats,
+  EXIT_OK,
+  EXIT_FAILURE,
+  LINT_CONFIG_FILENAME,
+  type CommandOptions,
+  type CommandResult,
+} from './Commands'
+
+const COMMANDS: Record<string, (path: string, options: CommandOptions) => Promise<CommandResult>> = {
+  validate,
+  lint,
+  format,
+  package: packageUI,
+  stats,
+}
+
+const USAGE = `Usage: uiforge <command> <folder> [options]
+
+Commands:
+  validate <folder>   Parse every file, check references and validate against SIDL.xml
+  lint <folder>       Run the lint rules (configured by ${LINT_CONFIG_FILENAME} in the folder)
+  format <folder>     Rewrite every file in the serializer's layout (comments are dropped);
+                      needs --out, --write or --check
+  package <folder>    Zip the UI with a regenerated EQUI.xml and its textures
+  stats <folder>      Count screens, pieces and definitions
+
+Options:
+  --base <folder>     Folder files the UI doesn't override come from, e.g. uifiles/default
+  --schema <file>     SIDL.xml to validate against (default: the UI's, then the base's, then bundled)
+  --config <file>     Lint config: { "rules": { "<rule>": "error" | "warning" | "off" } }
+  --out <path>        format: folder to write to; package: zip file
+  --write             format: rewrite the files in place
+  --check             format: list files that would change without writing them
+  --name <name>       package: folder name inside the zip
+  --json              Print machine-readable JSON
+  -h, --help          Show this help
+
+Exit codes: 0 no errors, 1 errors found (or files to format with --check), 2 the command failed`
+
+/**
+ * Run the CLI with the given arguments, returning the exit code
+ */
+async function main(args: string[]): Promise<number> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        base: { type: 'string' },
+        schema: { type: 'string' },
+        config: { type: 'string' },
+        out: { type: 'string' },
+        write: { type: 'boolean' },
+        check: { type: 'boolean' },
+        name: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (err) {
+    return fail(err, false)
+  }
+
+  const { values, positionals } = parsed
+  const [commandName, path, ...extra] = positionals
+  if (values.help || !commandName) {
+    console.log(USAGE)
+    return values.help ? EXIT_OK : EXIT_FAILURE
+  }
+
+  const json = !!values.json
+  const command = COMMANDS[commandName]
+  if (!command) {
+    return fail(new Error(`Unknown command "${commandName}"\n\n${USAGE}`), json)
+  }
+  if (!path || extra.length > 0) {
+    return fail(new Error(`${commandName} takes one folder\n\n${USAGE}`), json)
+  }
+
+  try {
+    const result = await command(path, values)
+    if (json) {
+      console.log(JSON.stringify({ command: commandName, exitCode: result.exitCode, ...(result.output as object) }, null, 2))
+    } else {
+      for (const line of result.lines) console.log(line)
+    }
+    return result.exitCode
+  } catch (err) {
+    return fail(err, json)
+  }
+}
+
+/**
+ * Report an error that stopped the command
+ */
+function fail(err: unknown, json: boolean): number {
+  const message = err instanceof Error ? err.message : String(err)
+  if (json) {
+    console.log(JSON.stringify({ error: message, exitCode: EXIT_FAILURE }, null, 2))
+  } else {
+    console.error(`uiforge: ${message}`)
+  }
+  return EXIT_FAILURE
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
@@ -0,0 +1,44 @@
+/**
+ * Directory Writer
+ *
+ * Writes files back into a folder opened through the File System Access API.
+ */
+
+import { fileSave, supported, type FileSystemHandle } from 'browser-fs-access'
+
+/** Whether this browser can write into an opened folder */
+export const canWriteToDirectory = supported
+
+/**
+ * Make sure the folder may be written to, prompting the user if needed.
+ * Must be called from a user gesture when a prompt is required.
+ */
+export async function requestWritePermission(directory: FileSystemDirectoryHandle): Promise<boolean> {
+  // The permission methods are not in the DOM typings yet
+  const handle = directory as unknown as FileSystemHandle
+  const descriptor = { mode: 'readwrite' as const }
+
+  if ((await handle.queryPermission(descriptor)) === 'granted') return true
+  return (await handle.requestPermission(descriptor)) === 'granted'
+}
+
+/**
+ * Write a text file into the folder, replacing any existing file. A path
+ * such as "Chat Windows/Tabs Only/EQUI_ChatContainerWindow.xml" writes into
+ * subfolders, creating them as needed.
+ */
+export async function writeTextFile(
+  directory: FileSystemDirectoryHandle,
+  path: string,
+  contents: string
+): Promise<void> {
+  const parts = path.split('/')
+  const filename = parts.pop() as string
+  let folder = directory
+  for (const part of parts) {
+    folder = await folder.getDirectoryHandle(part, { create: true })
+  }
+
+  const fileHandle = await folder.getFileHandle(filename, { create: true })
+  await fileSave(new Blob([contents], { type: 'application/xml' }), { fileName: filename }, fileHandle, true)
+}
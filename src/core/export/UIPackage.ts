@@ -0,0 +1,85 @@
+/**
+ * UI Package
+ *
+ * Bundles a whole project into a zip laid out like a folder under
+ * EverQuest's uifiles directory: every UI file, a regenerated EQUI.xml
+ * manifest and the loaded textures in their original formats. Option
+ * variants can be packaged in their subfolders alongside.
+ */
+
+import JSZip from 'jszip'
+import type { UIProject, UIFile } from '@/models/project/Project'
+import type { TextureData } from '@/core/texture/TextureManager'
+import { patchUIFile } from '@/core/parser/XmlPatcher'
+import { serializeManifest } from '@/core/parser/XmlSerializer'
+
+export const MANIFEST_FILENAME = 'EQUI.xml'
+
+/**
+ * Manifest include order: the loaded manifest's own order (including files
+ * that come from the default UI), followed by project files it did not list
+ */
+export function getManifestIncludes(project: UIProject): string[] {
+  const includes = [...(project.includes ?? [])]
+  const listed = new Set(includes.map((name) => name.toLowerCase()))
+
+  for (const file of project.files) {
+    const key = file.filename.toLowerCase()
+    if (key === MANIFEST_FILENAME.toLowerCase() || listed.has(key)) continue
+    includes.push(file.filename)
+    listed.add(key)
+  }
+
+  return includes
+}
+
+/**
+ * Folder name used inside the package, safe for any file system
+ */
+export function getPackageFolderName(project: UIProject): string {
+  return project.name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'UIForge'
+}
+
+/** A texture file to package: its name and original bytes */
+export type PackageTexture = Pick<TextureData, 'filename' | 'source'>
+
+/** An option variant's subfolder to package, e.g. "Chat Windows/Tabs Only" */
+export interface PackageFolder {
+  path: string
+  files: UIFile[]
+  textures: PackageTexture[]
+}
+
+/**
+ * Build the zip for a project and its loaded textures, with any variant
+ * folders inside the UI folder
+ */
+export async function createUIPackage(
+  project: UIProject,
+  textures: PackageTexture[],
+  variants: PackageFolder[] = []
+): Promise<Blob> {
+  const zip = new JSZip()
+  const folder = zip.folder(getPackageFolderName(project)) ?? zip
+
+  for (const file of project.files) {
+    if (file.filename.toLowerCase() === MANIFEST_FILENAME.toLowerCase()) continue
+    folder.file(file.filename, patchUIFile(file))
+  }
+  folder.file(MANIFEST_FILENAME, serializeManifest(getManifestIncludes(project)))
+
+  for (const texture of textures) {
+    folder.file(texture.filename, await texture.source.arrayBuffer())
+  }
+
+  for (const variant of variants) {
+    for (const file of variant.files) {
+      folder.file(`${variant.path}/${file.filename}`, patchUIFile(file))
+    }
+    for (const texture of variant.textures) {
+      folder.file(`${variant.path}/${texture.filename}`, await texture.source.arrayBuffer())
+    }
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+}
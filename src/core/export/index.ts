@@ -0,0 +1,6 @@
+/**
+ * Export module exports
+ */
+
+export * from './UIPackage'
+export * from './DirectoryWriter'
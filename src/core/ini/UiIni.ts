@@ -0,0 +1,177 @@
+/**
+ * UI Ini
+ *
+ * Reads and writes the client's per-character layout files,
+ * UI_<character>_<server>.ini. Each window has a section named after its
+ * Screen with XPos, YPos, Width, Height and Show entries. Newer clients keep
+ * positions for every screen resolution played at, with the resolution
+ * appended to the key (XPos1920x1080). Everything else in the file is kept
+ * as it was when it is written back.
+ */
+
+/** A line of a section: a key and value, or a comment or blank line kept as is */
+export interface IniEntry {
+  key: string // The whole line when there is no value
+  value?: string
+}
+
+/** A [section] and its lines; lines before the first section have an empty name */
+export interface IniSection {
+  name: string
+  entries: IniEntry[]
+}
+
+/** A parsed ini file */
+export interface UiIni {
+  sections: IniSection[]
+}
+
+/** Where a window sits on screen and whether it is open */
+export interface WindowLayout {
+  x: number
+  y: number
+  width: number
+  height: number
+  show: boolean
+}
+
+const POSITION_KEYS = {
+  x: 'XPos',
+  y: 'YPos',
+  width: 'Width',
+  height: 'Height',
+} as const
+
+const SHOW_KEY = 'Show'
+
+const RESOLUTION_KEY = /^(?:XPos|YPos|Width|Height)(\d+x\d+)?$/i
+
+/**
+ * Parse an ini file's text
+ */
+export function parseUiIni(text: string): UiIni {
+  const sections: IniSection[] = [{ name: '', entries: [] }]
+
+  for (const line of text.split(/\r?\n/)) {
+    const header = /^\s*\[([^\]]*)\]\s*$/.exec(line)
+    if (header) {
+      sections.push({ name: header[1].trim(), entries: [] })
+      continue
+    }
+
+    const current = sections[sections.length - 1]
+    const equals = line.indexOf('=')
+    if (equals > 0 && !/^\s*[;#]/.test(line)) {
+      current.entries.push({ key: line.slice(0, equals).trim(), value: line.slice(equals + 1).trim() })
+    } else {
+      current.entries.push({ key: line })
+    }
+  }
+
+  // Drop the trailing newline's empty line and an empty preamble
+  const last = sections[sections.length - 1].entries
+  if (last.length > 0 && last[last.length - 1].key === '' && last[last.length - 1].value === undefined) {
+    last.pop()
+  }
+  if (sections[0].entries.length === 0) sections.shift()
+
+  return { sections }
+}
+
+/**
+ * Write an ini file back out, with Windows line endings like the client's
+ */
+export function serializeUiIni(ini: UiIni): string {
+  const lines: string[] = []
+  for (const section of ini.sections) {
+    if (section.name !== '' || lines.length > 0) lines.push(`[${section.name}]`)
+    for (const entry of section.entries) {
+      lines.push(entry.value === undefined ? entry.key : `${entry.key}=${entry.value}`)
+    }
+  }
+  return lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * Screen resolutions the file has window positions for, e.g. "1920x1080".
+ * An empty string stands for positions saved without a resolution.
+ */
+export function getIniResolutions(ini: UiIni): string[] {
+  const counts = new Map<string, number>()
+  for (const section of ini.sections) {
+    for (const entry of section.entries) {
+      const match = entry.value !== undefined ? RESOLUTION_KEY.exec(entry.key) : null
+      if (match) {
+        const resolution = match[1] ?? ''
+        counts.set(resolution, (counts.get(resolution) ?? 0) + 1)
+      }
+    }
+  }
+  // Most used first
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([resolution]) => resolution)
+}
+
+/**
+ * Window layouts by section name, for one resolution. Only windows with at
+ * least one position or size entry are included.
+ */
+export function readWindowLayouts(ini: UiIni, resolution = ''): Map<string, Partial<WindowLayout>> {
+  const layouts = new Map<string, Partial<WindowLayout>>()
+
+  for (const section of ini.sections) {
+    if (section.name === '') continue
+    const values = new Map(
+      section.entries.filter((e) => e.value !== undefined).map((e) => [e.key.toLowerCase(), e.value as string])
+    )
+
+    const layout: Partial<WindowLayout> = {}
+    for (const [field, key] of Object.entries(POSITION_KEYS) as [keyof typeof POSITION_KEYS, string][]) {
+      const value = Number.parseInt(values.get(`${key}${resolution}`.toLowerCase()) ?? '', 10)
+      if (Number.isFinite(value)) layout[field] = value
+    }
+    if (Object.keys(layout).length === 0) continue
+
+    const show = values.get(SHOW_KEY.toLowerCase())
+    if (show !== undefined) layout.show = show !== '0'
+    layouts.set(section.name, layout)
+  }
+
+  return layouts
+}
+
+/**
+ * Write window layouts into a copy of an ini file for one resolution,
+ * adding sections and entries it doesn't have. Section names match
+ * ignoring case, as the client's do.
+ */
+export function writeWindowLayouts(
+  ini: UiIni,
+  layouts: Map<string, Partial<WindowLayout>>,
+  resolution = ''
+): UiIni {
+  const sections = ini.sections.map((section) => ({ name: section.name, entries: section.entries.map((e) => ({ ...e })) }))
+
+  for (const [name, layout] of layouts) {
+    let section = sections.find((s) => s.name.toLowerCase() === name.toLowerCase())
+    if (!section) {
+      section = { name, entries: [] }
+      sections.push(section)
+    }
+
+    const set = (key: string, value: string) => {
+      const entry = section.entries.find((e) => e.value !== undefined && e.key.toLowerCase() === key.toLowerCase())
+      if (entry) {
+        entry.value = value
+      } else {
+        section.entries.push({ key, value })
+      }
+    }
+    for (const [field, key] of Object.entries(POSITION_KEYS) as [keyof typeof POSITION_KEYS, string][]) {
+      const value = layout[field]
+      if (value !== undefined) set(`${key}${resolution}`, String(Math.round(value)))
+    }
+    if (layout.show !== undefined) set(SHOW_KEY, layout.show ? '1' : '0')
+  }
+
+  return { sections }
+}
@@ -0,0 +1,5 @@
+/**
+ * Ini module exports
+ */
+
+export * from './UiIni'
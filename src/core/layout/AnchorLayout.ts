@@ -0,0 +1,140 @@
+/**
+ * Anchor Layout
+ *
+ * Where the client puts each piece of a window. A piece with AutoStretch has
+ * each edge anchored to its parent's near or far edge, so it follows the
+ * parent when the window is resized; any other piece sits at its Location
+ * with its Size. Layout boxes flow their children one after another instead.
+ */
+
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type { Point, Size } from '@/models/base/Primitives'
+
+/** A piece's place, absolute or relative to its parent */
+export interface LayoutRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** The parent edge each of a piece's edges is measured from */
+export interface PieceAnchors {
+  top: 'top' | 'bottom'
+  bottom: 'top' | 'bottom'
+  left: 'left' | 'right'
+  right: 'left' | 'right'
+}
+
+const LAYOUT_BOX_TYPES = new Set(['TileLayoutBox', 'LayoutBox', 'VerticalLayoutBox', 'HorizontalLayoutBox'])
+
+export function isLayoutBox(piece: ScreenPiece): boolean {
+  return LAYOUT_BOX_TYPES.has(piece.type)
+}
+
+/**
+ * Whether a piece's rect comes from its anchors. Children of a layout box
+ * are placed by the box, and top-level pieces have no parent to follow.
+ */
+export function isAnchored(piece: ScreenPiece, parent?: ScreenPiece): boolean {
+  return piece.autoStretch && !!parent && !isLayoutBox(parent)
+}
+
+export function getPieceAnchors(piece: ScreenPiece): PieceAnchors {
+  return {
+    top: piece.topAnchorToTop ? 'top' : 'bottom',
+    bottom: piece.bottomAnchorToTop ? 'top' : 'bottom',
+    left: piece.leftAnchorToLeft ? 'left' : 'right',
+    right: piece.rightAnchorToLeft ? 'left' : 'right',
+  }
+}
+
+/**
+ * A child's rect relative to its parent, which is `parentSize` big. Offsets
+ * from a far edge count inwards, the way the client reads them, and an edge
+ * anchored past its opposite collapses the piece rather than flipping it.
+ */
+export function getAnchoredRect(piece: ScreenPiece, parentSize: Size): LayoutRect {
+  if (!piece.autoStretch) {
+    return { x: piece.location.x, y: piece.location.y, width: piece.size.cx, height: piece.size.cy }
+  }
+
+  const left = piece.leftAnchorToLeft ? piece.leftAnchorOffset : parentSize.cx - piece.leftAnchorOffset
+  const right = piece.rightAnchorToLeft ? piece.rightAnchorOffset : parentSize.cx - piece.rightAnchorOffset
+  const top = piece.topAnchorToTop ? piece.topAnchorOffset : parentSize.cy - piece.topAnchorOffset
+  const bottom = piece.bottomAnchorToTop ? piece.bottomAnchorOffset : parentSize.cy - piece.bottomAnchorOffset
+
+  return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) }
+}
+
+/**
+ * Anchor offsets that keep an anchored piece at `rect` inside a parent of
+ * `parentSize`; the inverse of getAnchoredRect, for moving or resizing one.
+ */
+export function getAnchorOffsets(
+  piece: ScreenPiece,
+  rect: LayoutRect,
+  parentSize: Size
+): Pick<ScreenPiece, 'topAnchorOffset' | 'bottomAnchorOffset' | 'leftAnchorOffset' | 'rightAnchorOffset'> {
+  const right = rect.x + rect.width
+  const bottom = rect.y + rect.height
+  return {
+    leftAnchorOffset: piece.leftAnchorToLeft ? rect.x : parentSize.cx - rect.x,
+    rightAnchorOffset: piece.rightAnchorToLeft ? right : parentSize.cx - right,
+    topAnchorOffset: piece.topAnchorToTop ? rect.y : parentSize.cy - rect.y,
+    bottomAnchorOffset: piece.bottomAnchorToTop ? bottom : parentSize.cy - bottom,
+  }
+}
+
+/**
+ * Absolute rects of every piece under `roots`, by piece id. `getRootRect`
+ * places a top-level piece somewhere other than its own location and size,
+ * such as where a UI ini puts the window.
+ */
+export function layoutPieces(
+  roots: ScreenPiece[],
+  getRootRect?: (root: ScreenPiece) => LayoutRect | null
+): Map<string, LayoutRect> {
+  const rects = new Map<string, LayoutRect>()
+
+  const place = (piece: ScreenPiece, rect: LayoutRect) => {
+    rects.set(piece.id, rect)
+    const size = { cx: rect.width, cy: rect.height }
+
+    if (isLayoutBox(piece)) {
+      // Children follow one another along the box, ignoring their locations
+      let horizontal = piece.horizontalFirst !== false
+      if (piece.type === 'VerticalLayoutBox') horizontal = false
+      if (piece.type === 'HorizontalLayoutBox') horizontal = true
+
+      const spacing = piece.spacing || 0
+      const cursor: Point = { x: 0, y: 0 }
+      for (const child of piece.children) {
+        place(child, { x: rect.x + cursor.x, y: rect.y + cursor.y, width: child.size.cx, height: child.size.cy })
+        if (horizontal) {
+          cursor.x += child.size.cx + spacing
+        } else {
+          cursor.y += child.size.cy + spacing
+        }
+      }
+      return
+    }
+
+    for (const child of piece.children) {
+      const relative = getAnchoredRect(child, size)
+      place(child, { ...relative, x: rect.x + relative.x, y: rect.y + relative.y })
+    }
+  }
+
+  for (const root of roots) {
+    const rect = getRootRect?.(root) ?? {
+      x: root.location.x,
+      y: root.location.y,
+      width: root.size.cx,
+      height: root.size.cy,
+    }
+    place(root, rect)
+  }
+
+  return rects
+}
@@ -0,0 +1,121 @@
+/**
+ * Desktop
+ *
+ * Where a UI's windows sit on the player's screen: every top-level Screen of
+ * every file at its absolute location, checked against a screen resolution
+ * for windows that overlap each other or don't fit on screen.
+ */
+
+import type { UIProject } from '@/models/project/Project'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type { WindowLayout } from '@/core/ini/UiIni'
+
+/** A screen size to lay windows out in */
+export interface ScreenResolution {
+  width: number
+  height: number
+}
+
+/** Common resolutions, smallest first */
+export const SCREEN_RESOLUTIONS: ScreenResolution[] = [
+  { width: 1280, height: 720 },
+  { width: 1366, height: 768 },
+  { width: 1600, height: 900 },
+  { width: 1920, height: 1080 },
+  { width: 1920, height: 1200 },
+  { width: 2560, height: 1080 },
+  { width: 2560, height: 1440 },
+  { width: 3440, height: 1440 },
+  { width: 3840, height: 2160 },
+]
+
+/** A window as placed on the desktop */
+export interface DesktopWindow {
+  id: string // Piece id of the Screen
+  name: string // Item name, else ScreenID
+  filename: string
+  screen: ScreenPiece
+  x: number
+  y: number
+  width: number
+  height: number
+  shown: boolean // False for windows a layout has closed
+}
+
+/** Problems with where windows sit */
+export interface DesktopCheck {
+  overlaps: Map<string, string[]> // Window id to the ids of windows it overlaps
+  offScreen: Set<string> // Windows not wholly inside the screen
+}
+
+export function getResolutionLabel(resolution: ScreenResolution): string {
+  return `${resolution.width}x${resolution.height}`
+}
+
+/**
+ * Parse a label such as "1920x1080"
+ */
+export function parseResolution(label: string): ScreenResolution | null {
+  const match = /^(\d+)x(\d+)$/.exec(label.trim())
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : null
+}
+
+/**
+ * Every window in the project. Screens used as another piece's page or
+ * child aren't windows of their own. `getLayout` gives a position that
+ * takes the place of a window's XML location, such as one from a UI ini.
+ */
+export function getDesktopWindows(
+  project: UIProject,
+  getLayout?: (screen: ScreenPiece) => Partial<WindowLayout> | null
+): DesktopWindow[] {
+  const windows: DesktopWindow[] = []
+  for (const file of project.files) {
+    for (const screen of file.screens) {
+      if (screen.type !== 'Screen' || screen.isReferenced) continue
+      const layout = getLayout?.(screen) ?? {}
+      windows.push({
+        id: screen.id,
+        name: screen.item ?? screen.screenId,
+        filename: file.filename,
+        screen,
+        x: layout.x ?? screen.location.x,
+        y: layout.y ?? screen.location.y,
+        width: layout.width ?? screen.size.cx,
+        height: layout.height ?? screen.size.cy,
+        shown: layout.show ?? true,
+      })
+    }
+  }
+  return windows
+}
+
+/**
+ * Find open windows that overlap or stick out of the screen
+ */
+export function checkDesktop(windows: DesktopWindow[], resolution: ScreenResolution): DesktopCheck {
+  const check: DesktopCheck = { overlaps: new Map(), offScreen: new Set() }
+  const open = windows.filter((window) => window.shown)
+
+  for (const window of open) {
+    const inside =
+      window.x >= 0 &&
+      window.y >= 0 &&
+      window.x + window.width <= resolution.width &&
+      window.y + window.height <= resolution.height
+    if (!inside) check.offScreen.add(window.id)
+  }
+
+  for (let i = 0; i < open.length; i++) {
+    for (let j = i + 1; j < open.length; j++) {
+      const a = open[i]
+      const b = open[j]
+      const overlaps = a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+      if (!overlaps) continue
+      check.overlaps.set(a.id, [...(check.overlaps.get(a.id) ?? []), b.id])
+      check.overlaps.set(b.id, [...(check.overlaps.get(b.id) ?? []), a.id])
+    }
+  }
+
+  return check
+}
@@ -0,0 +1,6 @@
+/**
+ * Layout module exports
+ */
+
+export * from './AnchorLayout'
+export * from './Desktop'
@@ -0,0 +1,113 @@
+/**
+ * Lint Engine
+ *
+ * Runs a set of rules over a whole project and collects what they find.
+ * Each rule has a default severity that a config can raise, lower or turn
+ * off, so the same rules serve the editor and scripted checks. Rules may
+ * offer a fix: property changes to one piece that resolve the problem.
+ */
+
+import type { UIProject } from '@/models/project/Project'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type { ParseError } from '@/core/parser/EquiParser'
+
+/** How seriously a rule's findings are reported */
+export type LintSeverity = 'error' | 'warning'
+
+/** A rule's setting in a config */
+export type LintRuleSetting = LintSeverity | 'off'
+
+/** Which rules run, and how severe their findings are */
+export interface LintConfig {
+  rules?: Record<string, LintRuleSetting> // Rule id to setting; unlisted rules use their default
+}
+
+/** An edit that resolves a problem, applied to one piece */
+export interface LintFix {
+  description: string
+  elementId: string
+  changes: Partial<ScreenPiece>
+}
+
+/** A finding, in the same shape as parse and schema problems */
+export interface LintProblem extends ParseError {
+  rule: string
+  filename: string
+  elementId?: string // Piece the problem was found on
+  fix?: LintFix
+}
+
+/** What a rule reports; the engine fills in the rule and severity */
+export type LintReport = Omit<LintProblem, 'rule' | 'severity'>
+
+/** What rules check */
+export interface LintContext {
+  project: UIProject
+  textureFiles?: Set<string> // Lower-case names of the texture files on hand, when known
+}
+
+/** A check over the project */
+export interface LintRule {
+  id: string // kebab-case, used in configs
+  description: string
+  severity: LintSeverity // Default severity
+  check: (context: LintContext, report: (problem: LintReport) => void) => void
+}
+
+/**
+ * Setting a config gives a rule, falling back to its default severity
+ */
+export function getRuleSetting(rule: LintRule, config: LintConfig = {}): LintRuleSetting {
+  return config.rules?.[rule.id] ?? rule.severity
+}
+
+/**
+ * Check a config against the known rules. Returns a message per problem.
+ */
+export function validateLintConfig(config: LintConfig, rules: LintRule[]): string[] {
+  const messages: string[] = []
+  for (const [id, setting] of Object.entries(config.rules ?? {})) {
+    if (!rules.some((rule) => rule.id === id)) {
+      messages.push(`Unknown lint rule "${id}"`)
+    } else if (!['error', 'warning', 'off'].includes(setting)) {
+      messages.push(`Rule "${id}" has invalid setting "${setting}"; expected error, warning or off`)
+    }
+  }
+  return messages
+}
+
+/**
+ * Run every enabled rule over the project
+ */
+export function runLint(context: LintContext, rules: LintRule[], config: LintConfig = {}): LintProblem[] {
+  const problems: LintProblem[] = []
+
+  for (const rule of rules) {
+    const setting = getRuleSetting(rule, config)
+    if (setting === 'off') continue
+    rule.check(context, (problem) => problems.push({ ...problem, rule: rule.id, severity: setting }))
+  }
+
+  return problems
+}
+
+/**
+ * Visit every piece of a file's screens, parents before children, along with
+ * the top-level piece it is defined in. Copies made from Pieces references
+ * are skipped, since their definition is visited.
+ */
+export function forEachDefinedPiece(
+  screens: ScreenPiece[],
+  visit: (piece: ScreenPiece, parent: ScreenPiece | null, root: ScreenPiece) => void
+): void {
+  const walk = (piece: ScreenPiece, parent: ScreenPiece | null, root: ScreenPiece): void => {
+    if (piece.sourceId) return
+    visit(piece, parent, root)
+    for (const child of piece.children) {
+      walk(child, piece, root)
+    }
+  }
+  for (const screen of screens) {
+    walk(screen, null, screen)
+  }
+}
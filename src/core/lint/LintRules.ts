@@ -0,0 +1,213 @@
+/**
+ * Lint Rules
+ *
+ * Built-in rules for mistakes the EQ client loads without complaint but
+ * draws wrongly or not at all.
+ */
+
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import {
+  getPieceReferences,
+  getDefinitionReferences,
+  isReferenceResolved,
+  describeReferenceKinds,
+} from '@/core/references/TemplateReferences'
+import { forEachDefinedPiece, type LintRule } from './LintEngine'
+
+/** Containers that position and size their children themselves */
+const LAYOUT_TYPES = new Set(['TileLayoutBox', 'LayoutBox', 'VerticalLayoutBox', 'HorizontalLayoutBox', 'TabBox'])
+
+/** Pieces the client sizes without a Size: slots take their background's size, pages their TabBox's */
+const SELF_SIZED_TYPES = new Set(['InvSlot', 'Page'])
+
+/** Names that resolve to nothing in the project's template library */
+export const unresolvedReferenceRule: LintRule = {
+  id: 'unresolved-reference',
+  description: 'DrawTemplate, Animation, TextureInfo and Pieces names that resolve to nothing',
+  severity: 'error',
+  check({ project }, report) {
+    for (const file of project.files) {
+      forEachDefinedPiece(file.screens, (piece, _parent, root) => {
+        for (const reference of getPieceReferences(piece)) {
+          if (isReferenceResolved(project.templates, reference)) continue
+          report({
+            filename: file.filename,
+            message: `${reference.property} "${reference.name}" is not a defined ${describeReferenceKinds(reference)}`,
+            element: piece.type,
+            item: root.item,
+            elementId: piece.id,
+          })
+        }
+        for (const reference of piece.unresolvedReferences ?? []) {
+          report({
+            filename: file.filename,
+            message: `${reference.tag} "${reference.name}" is not defined`,
+            element: piece.type,
+            item: root.item,
+            elementId: piece.id,
+          })
+        }
+      })
+
+      for (const kind of Object.keys(file.templates) as (keyof TemplateLibrary)[]) {
+        for (const [item, definition] of file.templates[kind]) {
+          for (const reference of getDefinitionReferences(kind, definition)) {
+            if (isReferenceResolved(project.templates, reference)) continue
+            report({
+              filename: file.filename,
+              message: `${reference.property} "${reference.name}" is not a defined ${describeReferenceKinds(reference)}`,
+              item,
+            })
+          }
+        }
+      }
+    }
+  },
+}
+
+/** Siblings sharing a ScreenID, which the client can only find one of */
+export const duplicateScreenIdRule: LintRule = {
+  id: 'duplicate-screen-id',
+  description: 'Children of one parent with the same ScreenID',
+  severity: 'error',
+  check({ project }, report) {
+    for (const file of project.files) {
+      forEachDefinedPiece(file.screens, (piece, _parent, root) => {
+        // Definition each ScreenID was first seen on; listing the same
+        // definition twice in Pieces is deliberate, e.g. for spacers
+        const seen = new Map<string, string>()
+        const taken = new Set(piece.children.map((child) => child.screenId))
+        for (const child of piece.children) {
+          // Pieces without a ScreenID fall back to their type name
+          if (child.screenId === child.type) continue
+          const source = child.sourceId ?? child.id
+          const first = seen.get(child.screenId)
+          if (first === undefined) {
+            seen.set(child.screenId, source)
+          } else if (first !== source) {
+            const screenId = getUniqueScreenId(taken, child.screenId)
+            report({
+              filename: file.filename,
+              message: `ScreenID "${child.screenId}" is used more than once in ${piece.screenId}`,
+              element: child.type,
+              item: root.item,
+              elementId: child.id,
+              fix: { description: `Rename to ${screenId}`, elementId: child.id, changes: { screenId } },
+            })
+          }
+        }
+      })
+    }
+  },
+}
+
+/** TextureInfo files that are not among the project's textures */
+export const missingTextureFileRule: LintRule = {
+  id: 'missing-texture-file',
+  description: 'TextureInfo filenames with no matching texture file',
+  severity: 'warning',
+  check({ project, textureFiles }, report) {
+    if (!textureFiles) return
+    for (const file of project.files) {
+      for (const [item, texture] of file.templates.textures) {
+        const name = texture.filename.split(/[\\/]/).pop() ?? texture.filename
+        if (textureFiles.has(name.toLowerCase())) continue
+        report({
+          filename: file.filename,
+          message: `Texture file "${texture.filename}" was not found`,
+          element: 'TextureInfo',
+          item,
+        })
+      }
+    }
+  },
+}
+
+/** Children that reach past their parent's Size and are clipped */
+export const childOutOfBoundsRule: LintRule = {
+  id: 'child-out-of-bounds',
+  description: "Children positioned outside their parent's Size",
+  severity: 'warning',
+  check({ project }, report) {
+    for (const file of project.files) {
+      forEachDefinedPiece(file.screens, (piece, _parent, root) => {
+        if (LAYOUT_TYPES.has(piece.type) || piece.autoStretch || piece.size.cx <= 0 || piece.size.cy <= 0) return
+
+        for (const child of piece.children) {
+          if (!child.relativePosition || child.autoStretch) continue
+          const { x, y } = child.location
+          const { cx, cy } = child.size
+          if (x >= 0 && y >= 0 && x + cx <= piece.size.cx && y + cy <= piece.size.cy) continue
+
+          const location = {
+            x: Math.max(0, Math.min(x, piece.size.cx - cx)),
+            y: Math.max(0, Math.min(y, piece.size.cy - cy)),
+          }
+          report({
+            filename: file.filename,
+            message: `${child.screenId} at ${x},${y} (${cx}x${cy}) is outside ${piece.screenId} (${piece.size.cx}x${piece.size.cy})`,
+            element: child.type,
+            item: root.item,
+            elementId: child.id,
+            fix: { description: `Move to ${location.x},${location.y}`, elementId: child.id, changes: { location } },
+          })
+        }
+      })
+    }
+  },
+}
+
+/** Pieces with no width or height, which never show */
+export const zeroSizeRule: LintRule = {
+  id: 'zero-size',
+  description: 'Pieces with no width or height that nothing else sizes',
+  severity: 'warning',
+  check({ project }, report) {
+    for (const file of project.files) {
+      // Definitions that are placed in a layout box, which sizes them
+      const laidOut = new Set<string>()
+      forEachDefinedPiece(file.screens, (piece) => {
+        if (!LAYOUT_TYPES.has(piece.type)) return
+        for (const child of piece.children) {
+          laidOut.add(child.sourceId ?? child.id)
+        }
+      })
+
+      forEachDefinedPiece(file.screens, (piece, parent, root) => {
+        if (piece.size.cx > 0 && piece.size.cy > 0) return
+        if (piece.autoStretch || SELF_SIZED_TYPES.has(piece.type) || laidOut.has(piece.id)) return
+        // Top-level pieces other than screens only show where they are used
+        if (!parent && piece.type !== 'Screen' && !piece.isReferenced) return
+
+        report({
+          filename: file.filename,
+          message: `${piece.screenId} is ${piece.size.cx}x${piece.size.cy}`,
+          element: piece.type,
+          item: root.item,
+          elementId: piece.id,
+        })
+      })
+    }
+  },
+}
+
+/** Every built-in rule, in the order problems are reported */
+export const LINT_RULES: LintRule[] = [
+  unresolvedReferenceRule,
+  duplicateScreenIdRule,
+  missingTextureFileRule,
+  childOutOfBoundsRule,
+  zeroSizeRule,
+]
+
+/**
+ * A ScreenID not yet taken, made by numbering the given one. It is taken
+ * from then on, so the next duplicate among the same siblings gets another.
+ */
+function getUniqueScreenId(taken: Set<string>, screenId: string): string {
+  const base = screenId.replace(/\d+$/, '')
+  let index = 2
+  while (taken.has(`${base}${index}`)) index++
+  taken.add(`${base}${index}`)
+  return `${base}${index}`
+}
@@ -0,0 +1,6 @@
+/**
+ * Lint module exports
+ */
+
+export * from './LintEngine'
+export * from './LintRules'
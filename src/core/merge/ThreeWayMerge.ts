@@ -0,0 +1,356 @@
+/**
+ * Three-Way Merge
+ *
+ * Brings a custom UI file up to date with a new default UI patch. The old
+ * default the custom file was made from, the new default and the custom file
+ * are parsed and compared piece by piece, matched by ScreenID path, and
+ * definition by definition, matched by item name. Whatever the patch changed
+ * that the custom file left alone is applied automatically; where both
+ * changed the same thing the conflict is kept for the user to resolve. The
+ * result is patched into the custom file's source so its formatting survives.
+ */
+
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import { cloneScreenPiece } from '@/models/elements/ScreenPiece'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import type { UIFile } from '@/models/project/Project'
+import { parseEquiFile, resolvePiecesReferences, type ParsedEquiFile } from '@/core/parser/EquiParser'
+import { serializePieceXml, serializeDefinitionXml } from '@/core/parser/XmlSerializer'
+import { patchUIFile } from '@/core/parser/XmlPatcher'
+import { describeNode } from '@/core/references/DependencyIndex'
+
+/** The three versions of a file being merged */
+export interface MergeSources {
+  filename: string
+  base: string // Old default the custom file was made from
+  theirs: string // New default
+  ours: string // Custom file
+}
+
+/** Which version a conflict is resolved to */
+export type MergeSide = 'ours' | 'theirs'
+
+/** A change from the patch applied without asking */
+export interface MergeChange {
+  path: string // e.g. "InventoryWindow/IW_Done"
+  description: string
+}
+
+/** A place the patch and the custom file changed differently */
+export interface MergeConflict {
+  id: string // Stable across merges of the same sources
+  path: string
+  description: string
+  ours: string // The custom file's version, as XML or a property value
+  theirs: string // The new default's version
+}
+
+/** Result of merging one file */
+export interface MergeResult {
+  filename: string
+  changes: MergeChange[]
+  conflicts: MergeConflict[]
+  errors: string[] // Parse errors in any of the versions
+  resolve(resolutions: Map<string, MergeSide>): string // Merged XML; unresolved conflicts keep ours
+}
+
+interface MergeContext {
+  resolutions: Map<string, MergeSide>
+  changes: MergeChange[]
+  conflicts: MergeConflict[]
+}
+
+/** How one kind of entry is compared, copied and shown */
+interface EntryOps<T> {
+  same(a: T, b: T): boolean
+  copy(entry: T): T
+  show(entry: T): string
+  mergeContents(path: string, base: T, theirs: T, ours: T): T // Merge an entry all three versions have
+}
+
+// Properties that place a piece in the editor rather than describe it
+const STRUCTURAL_KEYS = new Set(['id', 'parentId', 'children', 'reference', 'sourceId', 'isReferenced', 'sourceFile'])
+
+const REMOVED = '(removed)'
+
+/**
+ * Merge the new default's changes into a custom file
+ */
+export function mergeUIFile(sources: MergeSources): MergeResult {
+  const first = runMerge(sources, new Map())
+  return {
+    filename: sources.filename,
+    changes: first.context.changes,
+    conflicts: first.context.conflicts,
+    errors: first.errors,
+    resolve: (resolutions) => patchUIFile(runMerge(sources, resolutions).file),
+  }
+}
+
+/**
+ * Merge into a fresh parse of the custom file, resolving conflicts as given
+ */
+function runMerge(
+  sources: MergeSources,
+  resolutions: Map<string, MergeSide>
+): { file: UIFile; context: MergeContext; errors: string[] } {
+  const context: MergeContext = { resolutions, changes: [], conflicts: [] }
+  const versions = { 'Old default': sources.base, 'New default': sources.theirs, Custom: sources.ours }
+  const errors: string[] = []
+  const [base, theirs, ours] = Object.entries(versions).map(([label, content]) => {
+    const parsed = parseVersion(content, sources.filename)
+    for (const error of parsed.errors) {
+      if (error.severity !== 'warning') errors.push(`${label}: ${error.message}`)
+    }
+    return parsed
+  })
+
+  const screens = mergePieces(context, '', base.screens, theirs.screens, ours.screens, (piece) => piece.item ?? piece.screenId)
+  mergeTemplates(context, base.templates, theirs.templates, ours.templates)
+
+  const file: UIFile = {
+    filename: sources.filename,
+    screens,
+    templates: ours.templates,
+    isDirty: false,
+    originalXml: sources.ours,
+  }
+  return { file, context, errors }
+}
+
+function parseVersion(content: string, filename: string): ParsedEquiFile {
+  const parsed = parseEquiFile(content, filename)
+  resolvePiecesReferences([parsed])
+  return parsed
+}
+
+/**
+ * Merge sibling pieces matched by name, in the custom file's order with the
+ * patch's new pieces placed where the new default has them
+ */
+function mergePieces<T extends ScreenPiece>(
+  context: MergeContext,
+  parentPath: string,
+  base: T[],
+  theirs: T[],
+  ours: T[],
+  getName: (piece: T) => string
+): T[] {
+  const [b, t, o] = [base, theirs, ours].map((pieces) => keyByName(pieces, getName))
+  const ops: EntryOps<T> = {
+    same: samePiece,
+    copy: (piece) => cloneScreenPiece(piece) as T,
+    show: serializePieceXml,
+    mergeContents: (path, basePiece, theirPiece, ourPiece) => mergePiece(context, path, basePiece, theirPiece, ourPiece),
+  }
+
+  const merged = new Map<string, T>()
+  for (const key of new Set([...o.keys(), ...t.keys(), ...b.keys()])) {
+    const path = parentPath ? `${parentPath}/${key}` : key
+    const piece = mergeEntry(context, path, b.get(key), t.get(key), o.get(key), ops)
+    if (piece) merged.set(key, piece)
+  }
+  return mergeOrder([...o.keys()], [...t.keys()], merged).map((key) => merged.get(key) as T)
+}
+
+/**
+ * Merge the properties and children of a piece all three versions have
+ */
+function mergePiece<T extends ScreenPiece>(context: MergeContext, path: string, base: T, theirs: T, ours: T): T {
+  // A copy stands for a reference to its definition, which is merged on its own
+  if (base.reference || theirs.reference || ours.reference) {
+    return mergeWhole<T>(context, path, base, theirs, ours, {
+      same: samePiece,
+      copy: (piece) => cloneScreenPiece(piece) as T,
+      show: serializePieceXml,
+    })
+  }
+
+  const values = [base, theirs, ours].map((piece) => piece as unknown as Record<string, unknown>)
+  const keys = new Set(values.flatMap((piece) => Object.keys(piece)).filter((key) => !STRUCTURAL_KEYS.has(key)))
+  const [b, t, o] = values
+  for (const key of keys) {
+    if (sameValue(t[key], b[key]) || sameValue(o[key], t[key])) continue
+
+    if (sameValue(o[key], b[key])) {
+      context.changes.push({ path, description: `Updated ${key}` })
+    } else {
+      const side = addConflict(context, `${path}:${key}`, path, `${key} changed in both`, formatValue(o[key]), formatValue(t[key]))
+      if (side === 'ours') continue
+    }
+
+    if (t[key] === undefined) {
+      delete o[key]
+    } else {
+      o[key] = copyValue(t[key])
+    }
+  }
+
+  ours.children = mergePieces(context, path, base.children, theirs.children, ours.children, (piece) => piece.screenId)
+  return ours
+}
+
+/**
+ * Merge each library's definitions, compared whole
+ */
+function mergeTemplates(context: MergeContext, base: TemplateLibrary, theirs: TemplateLibrary, ours: TemplateLibrary): void {
+  for (const kind of Object.keys(ours) as (keyof TemplateLibrary)[]) {
+    const [b, t, o] = [base, theirs, ours].map((library) => library[kind] as Map<string, { item: string }>)
+    const ops: EntryOps<{ item: string }> = {
+      same: sameValue,
+      copy: copyValue,
+      show: (definition) => serializeDefinitionXml(kind, definition),
+      mergeContents: (path, baseDefinition, theirDefinition, ourDefinition) =>
+        mergeWhole(context, path, baseDefinition, theirDefinition, ourDefinition, ops),
+    }
+
+    const merged = new Map<string, { item: string }>()
+    for (const name of new Set([...o.keys(), ...t.keys(), ...b.keys()])) {
+      const definition = mergeEntry(context, describeNode({ kind, name }), b.get(name), t.get(name), o.get(name), ops)
+      if (definition) merged.set(name, definition)
+    }
+
+    const library = ours[kind] as Map<string, { item: string }>
+    library.clear()
+    for (const name of mergeOrder([...o.keys()], [...t.keys()], merged)) {
+      library.set(name, merged.get(name) as { item: string })
+    }
+  }
+}
+
+/**
+ * Decide whether an entry is kept, taken from the new default or dropped,
+ * by which versions have it. Returns the merged entry, or undefined to drop it.
+ */
+function mergeEntry<T>(
+  context: MergeContext,
+  path: string,
+  base: T | undefined,
+  theirs: T | undefined,
+  ours: T | undefined,
+  ops: EntryOps<T>
+): T | undefined {
+  if (!ours) {
+    // Removed from the custom file, or only ever in the old default
+    if (!theirs) return undefined
+    if (!base) {
+      context.changes.push({ path, description: 'Added' })
+      return ops.copy(theirs)
+    }
+    if (ops.same(base, theirs)) return undefined
+    const side = addConflict(context, path, path, 'Changed by the patch but removed from the custom UI', REMOVED, ops.show(theirs))
+    return side === 'theirs' ? ops.copy(theirs) : undefined
+  }
+
+  if (!theirs) {
+    if (!base) return ours
+    if (ops.same(base, ours)) {
+      context.changes.push({ path, description: 'Removed' })
+      return undefined
+    }
+    const side = addConflict(context, path, path, 'Removed by the patch but changed in the custom UI', ops.show(ours), REMOVED)
+    return side === 'theirs' ? undefined : ours
+  }
+
+  if (!base) {
+    if (ops.same(ours, theirs)) return ours
+    const side = addConflict(context, path, path, 'Added by both the patch and the custom UI', ops.show(ours), ops.show(theirs))
+    return side === 'theirs' ? ops.copy(theirs) : ours
+  }
+
+  return ops.mergeContents(path, base, theirs, ours)
+}
+
+/**
+ * Merge an entry as a whole: taken from whichever side changed it
+ */
+function mergeWhole<T>(
+  context: MergeContext,
+  path: string,
+  base: T,
+  theirs: T,
+  ours: T,
+  ops: Omit<EntryOps<T>, 'mergeContents'>
+): T {
+  if (ops.same(theirs, base) || ops.same(ours, theirs)) return ours
+  if (ops.same(ours, base)) {
+    context.changes.push({ path, description: 'Updated' })
+    return ops.copy(theirs)
+  }
+  const side = addConflict(context, path, path, 'Changed in both', ops.show(ours), ops.show(theirs))
+  return side === 'theirs' ? ops.copy(theirs) : ours
+}
+
+/**
+ * Record a conflict and return how it is resolved
+ */
+function addConflict(
+  context: MergeContext,
+  id: string,
+  path: string,
+  description: string,
+  ours: string,
+  theirs: string
+): MergeSide {
+  context.conflicts.push({ id, path, description, ours, theirs })
+  return context.resolutions.get(id) ?? 'ours'
+}
+
+/**
+ * Key pieces by name, numbering repeats so each still has its own key
+ */
+function keyByName<T>(entries: T[], getName: (entry: T) => string): Map<string, T> {
+  const keyed = new Map<string, T>()
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    const name = getName(entry)
+    const count = (counts.get(name) ?? 0) + 1
+    counts.set(name, count)
+    keyed.set(count > 1 ? `${name}#${count}` : name, entry)
+  }
+  return keyed
+}
+
+/**
+ * Order merged keys: the custom file's order, with keys only the new
+ * default has placed after the key that precedes them there
+ */
+function mergeOrder(ours: string[], theirs: string[], merged: Map<string, unknown>): string[] {
+  const order = ours.filter((key) => merged.has(key))
+  theirs.forEach((key, index) => {
+    if (!merged.has(key) || order.includes(key)) return
+    const previous = theirs.slice(0, index).reverse().find((other) => order.includes(other))
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, key)
+  })
+  return order
+}
+
+/**
+ * What a piece looks like in the file: a copy is just its reference
+ */
+function describePiece(piece: ScreenPiece): unknown {
+  if (piece.reference) return { reference: piece.reference.text }
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(piece)) {
+    if (!STRUCTURAL_KEYS.has(key) && value !== undefined) values[key] = value
+  }
+  values.children = piece.children.map(describePiece)
+  return values
+}
+
+function samePiece(a: ScreenPiece, b: ScreenPiece): boolean {
+  return sameValue(describePiece(a), describePiece(b))
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function copyValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(not set)'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
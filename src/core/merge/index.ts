@@ -0,0 +1,5 @@
+/**
+ * Merge module exports
+ */
+
+export * from './ThreeWayMerge'
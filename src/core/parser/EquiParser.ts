@@ -6,7 +6,7 @@
 
 import type { SidlSchema } from './SidlParser'
 import type { Point, Size, RGB } from '@/models/base/Primitives'
-import type { ScreenPiece, StyleFlags } from '@/models/elements/ScreenPiece'
+import type { ScreenPiece, StyleFlags, PieceReference, RawElement, RawProperty } from '@/models/elements/ScreenPiece'
 import type { Screen } from '@/models/elements/Controls'
 import type {
   TextureInfo,
@@ -15,9 +15,23 @@ import type {
   FrameTemplate,
   ButtonDrawTemplate,
   GaugeDrawTemplate,
+  SliderDrawTemplate,
+  ScrollbarDrawTemplate,
+  SpellGemDrawTemplate,
   WindowDrawTemplate,
 } from '@/models/elements/Templates'
 import { generateId, cloneScreenPiece } from '@/models/elements/ScreenPiece'
+import { validateEquiXml } from './SchemaValidator'
+import { createLineIndex, XmlSyntaxError } from './XmlScanner'
+import {
+  parseXml,
+  getTextContent,
+  findChild,
+  findChildren,
+  findDescendant,
+  findDescendants,
+  type XmlElement,
+} from './XmlTree'
 import { createTemplateLibrary, type TemplateLibrary } from '@/models/elements/Templates'
 
 /** Result of parsing an EQUI file */
@@ -31,7 +45,7 @@ export interface ParsedEquiFile {
   /** All items by name (for Pieces resolution) */
   itemRegistry: Map<string, ScreenPiece>
   /** Unresolved Pieces references */
-  unresolvedPieces: Map<string, string[]>
+  unresolvedPieces: Map<string, PieceReference[]>
 }
 
 /** Parse error information */
@@ -39,6 +53,8 @@ export interface ParseError {
   message: string
   line?: number
   element?: string
+  severity?: 'error' | 'warning' // Missing means error
+  item?: string // Top-level definition the problem belongs to
 }
 
 /**
@@ -47,11 +63,8 @@ export interface ParseError {
 export function parseEquiFile(
   xmlContent: string,
   filename: string,
-  _schema?: SidlSchema
+  schema?: SidlSchema
 ): ParsedEquiFile {
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(xmlContent, 'text/xml')
-
   const result: ParsedEquiFile = {
     filename,
     screens: [],
@@ -61,24 +74,25 @@ export function parseEquiFile(
     unresolvedPieces: new Map(),
   }
 
-  // Check for parse errors
-  const parseError = doc.querySelector('parsererror')
-  if (parseError) {
+  // Parse the root element (usually <XML> or similar)
+  let root: XmlElement
+  try {
+    root = parseXml(xmlContent)
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err
     result.errors.push({
-      message: `XML parse error: ${parseError.textContent}`,
+      message: `XML parse error: ${err.message}`,
+      line: createLineIndex(xmlContent)(err.offset),
     })
     return result
   }
 
-  // Parse the root element (usually <XML> or similar)
-  const root = doc.documentElement
-
   // Check if this is a manifest file with Composite/Include pattern
-  const composite = root.querySelector('Composite')
+  const composite = findDescendant(root, 'Composite')
   if (composite) {
     const includes: string[] = []
-    for (const includeNode of composite.querySelectorAll('Include')) {
-      const includePath = includeNode.textContent?.trim()
+    for (const includeNode of findDescendants(composite, 'Include')) {
+      const includePath = getTextContent(includeNode).trim()
       if (includePath) {
         includes.push(includePath)
       }
@@ -97,10 +111,15 @@ export function parseEquiFile(
       result.errors.push({
         message: `Error parsing ${child.tagName}: ${err}`,
         element: child.tagName,
+        item: child.attributes.item,
       })
     }
   }
 
+  if (schema) {
+    result.errors.push(...validateEquiXml(xmlContent, schema))
+  }
+
   return result
 }
 
@@ -156,7 +175,7 @@ const visualElementTags = new Set([
 /**
  * Parse a top-level element (Screen, Template, etc.)
  */
-function parseTopLevelElement(node: Element, result: ParsedEquiFile): void {
+function parseTopLevelElement(node: XmlElement, result: ParsedEquiFile): void {
   const tagName = node.tagName
 
   // Handle templates first
@@ -202,6 +221,30 @@ function parseTopLevelElement(node: Element, result: ParsedEquiFile): void {
         break
       }
 
+      case 'SliderDrawTemplate': {
+        const sliderTemplate = parseSliderDrawTemplate(node)
+        if (sliderTemplate) {
+          result.templates.sliderTemplates.set(sliderTemplate.item, sliderTemplate)
+        }
+        break
+      }
+
+      case 'ScrollbarDrawTemplate': {
+        const scrollbarTemplate = parseScrollbarDrawTemplate(node)
+        if (scrollbarTemplate) {
+          result.templates.scrollbarTemplates.set(scrollbarTemplate.item, scrollbarTemplate)
+        }
+        break
+      }
+
+      case 'SpellGemDrawTemplate': {
+        const spellGemTemplate = parseSpellGemDrawTemplate(node)
+        if (spellGemTemplate) {
+          result.templates.spellGemTemplates.set(spellGemTemplate.item, spellGemTemplate)
+        }
+        break
+      }
+
       case 'WindowDrawTemplate': {
         const windowTemplate = parseWindowDrawTemplate(node)
         if (windowTemplate) {
@@ -224,36 +267,12 @@ function parseTopLevelElement(node: Element, result: ParsedEquiFile): void {
 
   // Handle other visual elements as top-level screens
   // Many EQUI files define buttons, gauges, etc. at the top level
-  if (visualElementTags.has(tagName) || node.querySelector('ScreenID')) {
+  if (visualElementTags.has(tagName) || findDescendant(node, 'ScreenID')) {
     const piece = parseScreenPiece(node, result)
     if (piece) {
-      // Wrap as a screen-like element so it appears in the tree
-      const wrapper: Screen = {
-        id: piece.id,
-        type: piece.type,
-        screenId: piece.screenId,
-        item: piece.item,
-        location: piece.location,
-        size: piece.size,
-        relativePosition: piece.relativePosition,
-        autoStretch: piece.autoStretch,
-        topAnchorToTop: piece.topAnchorToTop,
-        bottomAnchorToTop: piece.bottomAnchorToTop,
-        leftAnchorToLeft: piece.leftAnchorToLeft,
-        rightAnchorToLeft: piece.rightAnchorToLeft,
-        topAnchorOffset: piece.topAnchorOffset,
-        bottomAnchorOffset: piece.bottomAnchorOffset,
-        leftAnchorOffset: piece.leftAnchorOffset,
-        rightAnchorOffset: piece.rightAnchorOffset,
-        textColor: piece.textColor,
-        font: piece.font,
-        text: piece.text,
-        tooltip: piece.tooltip,
-        style: piece.style,
-        drawTemplate: piece.drawTemplate,
-        children: piece.children,
-      }
-      result.screens.push(wrapper)
+      // Listed with the screens so it appears in the tree; the piece keeps
+      // its own type and control-specific properties
+      result.screens.push(piece as Screen)
     }
   }
 }
@@ -261,15 +280,15 @@ function parseTopLevelElement(node: Element, result: ParsedEquiFile): void {
 /**
  * Parse a Screen element
  */
-function parseScreen(node: Element, result: ParsedEquiFile): Screen | null {
-  const screenId = getChildText(node, 'ScreenID') || node.getAttribute('item')
+function parseScreen(node: XmlElement, result: ParsedEquiFile): Screen | null {
+  const screenId = getChildText(node, 'ScreenID') || node.attributes.item
   if (!screenId) return null
 
   const screen: Screen = {
     id: generateId(),
     type: 'Screen',
     screenId,
-    item: node.getAttribute('item') || undefined,
+    item: node.attributes.item || undefined,
     location: parsePoint(node, 'Location'),
     size: parseSize(node, 'Size'),
     relativePosition: parseBoolean(node, 'RelativePosition'),
@@ -278,12 +297,12 @@ function parseScreen(node: Element, result: ParsedEquiFile): Screen | null {
     bottomAnchorToTop: parseBoolean(node, 'BottomAnchorToTop'),
     leftAnchorToLeft: parseBoolean(node, 'LeftAnchorToLeft', true),
     rightAnchorToLeft: parseBoolean(node, 'RightAnchorToLeft'),
-    topAnchorOffset: parseInt(getChildText(node, 'TopOffset') || '0', 10),
-    bottomAnchorOffset: parseInt(getChildText(node, 'BottomOffset') || '0', 10),
-    leftAnchorOffset: parseInt(getChildText(node, 'LeftOffset') || '0', 10),
-    rightAnchorOffset: parseInt(getChildText(node, 'RightOffset') || '0', 10),
+    topAnchorOffset: parseAnchorOffset(node, 'Top'),
+    bottomAnchorOffset: parseAnchorOffset(node, 'Bottom'),
+    leftAnchorOffset: parseAnchorOffset(node, 'Left'),
+    rightAnchorOffset: parseAnchorOffset(node, 'Right'),
     textColor: parseRGB(node, 'TextColor'),
-    font: parseInt(getChildText(node, 'Font') || '0', 10),
+    font: parseFloat(getChildText(node, 'Font') || '0'), // Some files use fractional sizes like .9
     text: getChildText(node, 'Text'),
     tooltip: getChildText(node, 'TooltipReference'),
     style: parseStyleFlags(node),
@@ -298,99 +317,101 @@ function parseScreen(node: Element, result: ParsedEquiFile): Screen | null {
   }
 
   // Collect Pieces and Pages references
-  const childRefs: string[] = []
-
-  // Helper to collect refs from a selector
-  const collect = (selector: string) => {
-    for (const refNode of node.querySelectorAll(`:scope > ${selector}`)) {
-      const refName = refNode.textContent?.trim()
-      if (refName) {
-        // Strip type prefix if present (e.g. "Screen:Name" -> "Name")
-        const cleanName = refName.includes(':') ? refName.split(':')[1] : refName
-        childRefs.push(cleanName)
-      }
-    }
+  const childRefs: PieceReference[] = []
+  for (const refNode of findChildren(node, 'Pieces', 'Pages')) {
+    const ref = parseReference(refNode)
+    if (ref) childRefs.push(ref)
   }
 
-  collect('Pieces')
-  collect('Pages')
-
   if (childRefs.length > 0) {
     result.unresolvedPieces.set(screen.id, childRefs)
   }
 
-  // Parse nested child elements (direct children that are ScreenPieces)
+  // Parse nested child elements (direct children that are ScreenPieces) and
+  // keep the properties the model doesn't cover
+  const rawProperties: RawProperty[] = []
+  const previousTags: string[] = []
   for (const child of node.children) {
-    const childPiece = parseScreenPiece(child, result)
-    if (childPiece) {
-      childPiece.parentId = screen.id
-      screen.children.push(childPiece)
+    if (isNestedPiece(child)) {
+      const childPiece = parseScreenPiece(child, result)
+      if (childPiece) {
+        childPiece.parentId = screen.id
+        screen.children.push(childPiece)
+      }
+    } else if (!pieceProperties.has(child.tagName) && child.tagName !== 'WindowDrawTemplate') {
+      rawProperties.push({ ...readRawElement(child), ...getSourcePosition(previousTags) })
     }
+    previousTags.push(child.tagName)
+  }
+  if (rawProperties.length > 0) {
+    screen.rawProperties = rawProperties
   }
 
   return screen
 }
 
+// Properties read for every piece; Pieces and Pages are references
+const pieceProperties = new Set([
+  'ScreenID', 'Location', 'Size', 'RelativePosition', 'AutoStretch',
+  'TopAnchorToTop', 'BottomAnchorToTop', 'LeftAnchorToLeft', 'RightAnchorToLeft',
+  'TopAnchorOffset', 'BottomAnchorOffset', 'LeftAnchorOffset', 'RightAnchorOffset',
+  'TopOffset', 'BottomOffset', 'LeftOffset', 'RightOffset',
+  'TextColor', 'Font', 'Text', 'TooltipReference', 'DrawTemplate', 'EQType',
+  'Style_Transparent', 'Style_Border', 'Style_Titlebar', 'Style_Closebox', 'Style_Minimizebox',
+  'Style_Tilebox', 'Style_Sizable', 'Style_EscapeClose', 'Style_Checkbox', 'Style_VScroll', 'Style_HScroll',
+  'Pieces', 'Pages',
+])
+
+// Properties read by parseControlSpecificProps, by element type
+const controlProperties: Record<string, string[]> = {
+  Gauge: ['GaugeDrawTemplate', 'FillTint', 'LinesFillTint', 'Orientation'],
+  Button: [
+    'ButtonDrawTemplate', 'NormalTexture', 'PressedTexture', 'FlybyTexture', 'DisabledTexture',
+    'DecalOffset', 'DecalSize', 'Checkbox', 'Checked', 'RadioGroup',
+  ],
+  Label: ['NoWrap', 'AlignCenter', 'AlignRight'],
+  Editbox: ['MaxChars', 'Password', 'Multiline', 'AutoVScroll'],
+  InvSlot: ['InvSlot', 'BagSlot'],
+  SpellGem: ['SpellSlot', 'SpellGemDrawTemplate'],
+  HotButton: ['ButtonIndex'],
+  StaticAnimation: ['Animation'],
+  TileLayoutBox: [
+    'Spacing', 'SecondarySpacing', 'HorizontalFirst', 'AnchorToTop', 'AnchorToLeft',
+    'FirstPieceTemplate', 'SnapToChildren',
+  ],
+  LayoutBox: ['Spacing', 'AutoStretchHorizontal', 'AutoStretchVertical'],
+  VerticalLayoutBox: ['Spacing', 'AutoStretchHorizontal', 'AutoStretchVertical'],
+  HorizontalLayoutBox: ['Spacing', 'AutoStretchHorizontal', 'AutoStretchVertical'],
+  Page: ['TabText'],
+  Slider: ['SliderDrawTemplate', 'SliderArt', 'Orientation', 'MinValue', 'MaxValue', 'CurrentValue', 'PageSize'],
+  StaticFrame: ['FrameTemplate'],
+  Grid: ['Rows', 'Cols', 'CellWidth', 'CellHeight'],
+  Listbox: ['HeaderStyle', 'Sort', 'HighlightColor', 'Columns'],
+  TabBox: ['TabHeight'],
+  STMLbox: ['MaxLines'],
+  Combobox: ['Choices'],
+}
+
+/**
+ * Whether a child element defines a nested piece rather than a property
+ */
+function isNestedPiece(node: XmlElement): boolean {
+  return 'item' in node.attributes || findChild(node, 'ScreenID') !== undefined
+}
+
 /**
  * Parse any ScreenPiece element
  */
-function parseScreenPiece(node: Element, result: ParsedEquiFile): ScreenPiece | null {
+function parseScreenPiece(node: XmlElement, result: ParsedEquiFile): ScreenPiece | null {
   const tagName = node.tagName
   const screenId = getChildText(node, 'ScreenID')
 
-  // Skip non-ScreenPiece elements (property elements)
-  const knownNonPieces = new Set([
-    'ScreenID', 'Location', 'Size', 'RelativePosition', 'AutoStretch',
-    'TopAnchorToTop', 'BottomAnchorToTop', 'LeftAnchorToLeft', 'RightAnchorToLeft',
-    'TopOffset', 'BottomOffset', 'LeftOffset', 'RightOffset',
-    'TextColor', 'Font', 'Text', 'TooltipReference', 'DrawTemplate',
-    'WindowDrawTemplate', 'Style_Titlebar', 'Style_Closebox', 'Style_Minimizebox',
-    'Style_Border', 'Style_Sizable', 'Style_Transparent', 'Style_VScroll', 'Style_HScroll',
-    'Style_EscapeClose', 'Style_Checkbox', 'Style_Tilebox',
-    'Pieces', 'EQType', 'GaugeDrawTemplate', 'ButtonDrawTemplate', 'TextureInfo',
-    'Ui2DAnimation', 'FrameTemplate', 'Composite', 'Include',
-    // Layout properties
-    'Spacing', 'SecondarySpacing', 'HorizontalFirst', 'AnchorToTop', 'AnchorToLeft',
-    'FirstPieceTemplate', 'SnapToChildren', 'AutoStretchHorizontal', 'AutoStretchVertical',
-    // Control properties
-    'Animation', 'BagSlot', 'SpellSlot', 'ButtonIndex', 'TabText',
-    'MaxChars', 'Password', 'Multiline', 'AutoVScroll', 'NoWrap', 'AlignCenter', 'AlignRight',
-    // Grid properties
-    'Rows', 'Cols', 'CellWidth', 'CellHeight',
-    // Listbox properties
-    'HeaderStyle', 'Sort', 'HighlightColor', 'Columns',
-    // TabBox properties
-    'TabHeight', 'TabStyle',
-    // STMLbox properties
-    'MaxLines',
-    // Combobox properties
-    'Choices', 'SelectedIndex',
-    // Slider properties
-    'MinValue', 'MaxValue', 'CurrentValue', 'PageSize', 'SliderDrawTemplate', 'Orientation',
-    // SpellGem properties
-    'SpellGemDrawTemplate',
-    // Template references
-    'Template', 'Frame', 'Duration', 'Hotspot', 'Texture', 'Cycle',
-    // Misc properties
-    'Item', 'Border', 'Background', 'Fill', 'FillTint', 'LinesFillTint',
-    'TooltipText', 'ClickThrough', 'Enabled', 'Visible', 'Alpha',
-  ])
-
-  if (knownNonPieces.has(tagName)) {
-    return null
-  }
-
-  // Special handling for InvSlot which can be both a generic property and a specific ScreenPiece
-  if (tagName === 'InvSlot' && !node.getAttribute('item') && !getChildText(node, 'ScreenID')) {
-    return null
-  }
-
   // Create the base ScreenPiece
   const piece: ScreenPiece = {
     id: generateId(),
     type: tagName,
     screenId: screenId || tagName,
-    item: node.getAttribute('item') || undefined,
+    item: node.attributes.item || undefined,
     location: parsePoint(node, 'Location'),
     size: parseSize(node, 'Size'),
     relativePosition: parseBoolean(node, 'RelativePosition'),
@@ -399,12 +420,12 @@ function parseScreenPiece(node: Element, result: ParsedEquiFile): ScreenPiece |
     bottomAnchorToTop: parseBoolean(node, 'BottomAnchorToTop'),
     leftAnchorToLeft: parseBoolean(node, 'LeftAnchorToLeft', true),
     rightAnchorToLeft: parseBoolean(node, 'RightAnchorToLeft'),
-    topAnchorOffset: parseInt(getChildText(node, 'TopOffset') || '0', 10),
-    bottomAnchorOffset: parseInt(getChildText(node, 'BottomOffset') || '0', 10),
-    leftAnchorOffset: parseInt(getChildText(node, 'LeftOffset') || '0', 10),
-    rightAnchorOffset: parseInt(getChildText(node, 'RightOffset') || '0', 10),
+    topAnchorOffset: parseAnchorOffset(node, 'Top'),
+    bottomAnchorOffset: parseAnchorOffset(node, 'Bottom'),
+    leftAnchorOffset: parseAnchorOffset(node, 'Left'),
+    rightAnchorOffset: parseAnchorOffset(node, 'Right'),
     textColor: parseRGB(node, 'TextColor'),
-    font: parseInt(getChildText(node, 'Font') || '0', 10),
+    font: parseFloat(getChildText(node, 'Font') || '0'),
     text: getChildText(node, 'Text'),
     tooltip: getChildText(node, 'TooltipReference'),
     style: parseStyleFlags(node),
@@ -420,35 +441,40 @@ function parseScreenPiece(node: Element, result: ParsedEquiFile): ScreenPiece |
   // Parse control-specific properties
   parseControlSpecificProps(node, piece)
 
+  const modeled = new Set([...pieceProperties, ...(controlProperties[tagName] ?? [])])
+  const rawProperties: RawProperty[] = []
+
   // Collect Pieces and Pages references
-  const childRefs: string[] = []
-  // Parse nested children
+  const childRefs: PieceReference[] = []
   // Parse nested children and collect references
+  const previousTags: string[] = []
   for (const child of node.children) {
     const tagName = child.tagName
 
     // 1. Check for references (Pieces/Pages)
     if (tagName === 'Pieces' || tagName === 'Pages') {
-      const refName = child.textContent?.trim()
-      if (refName) {
-        // Strip type prefix if present (e.g. "Screen:Name" -> "Name")
-        const cleanName = refName.includes(':') ? refName.split(':')[1] : refName
-        childRefs.push(cleanName)
+      const ref = parseReference(child)
+      if (ref) childRefs.push(ref)
+    } else if (isNestedPiece(child)) {
+      // 2. Parse nested child components
+      const childPiece = parseScreenPiece(child, result)
+      if (childPiece) {
+        childPiece.parentId = piece.id
+        piece.children.push(childPiece)
       }
-      continue
-    }
-
-    // 2. Parse nested child components
-    const childPiece = parseScreenPiece(child, result)
-    if (childPiece) {
-      childPiece.parentId = piece.id
-      piece.children.push(childPiece)
+    } else if (!modeled.has(tagName)) {
+      // 3. Keep everything else the model doesn't cover
+      rawProperties.push({ ...readRawElement(child), ...getSourcePosition(previousTags) })
     }
+    previousTags.push(tagName)
   }
 
   if (childRefs.length > 0) {
     result.unresolvedPieces.set(piece.id, childRefs)
   }
+  if (rawProperties.length > 0) {
+    piece.rawProperties = rawProperties
+  }
 
   return piece
 }
@@ -456,7 +482,7 @@ function parseScreenPiece(node: Element, result: ParsedEquiFile): ScreenPiece |
 /**
  * Parse control-specific properties based on type
  */
-function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
+function parseControlSpecificProps(node: XmlElement, piece: ScreenPiece): void {
   const anyPiece = piece as Record<string, unknown>
   const tagName = node.tagName
 
@@ -476,21 +502,27 @@ function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
   // Parse type-specific properties
   switch (tagName) {
     case 'Gauge':
-      anyPiece.gaugeDrawTemplate = getChildText(node, 'GaugeDrawTemplate')
+      anyPiece.gaugeDrawTemplate = parseTemplateProperty(node, 'GaugeDrawTemplate', readGaugeDrawTemplate)
       anyPiece.fillTint = parseRGB(node, 'FillTint')
       anyPiece.linesFillTint = parseRGB(node, 'LinesFillTint')
       anyPiece.orientation = getChildText(node, 'Orientation') || 'horizontal'
       break
 
     case 'Button':
-      anyPiece.buttonDrawTemplate = getChildText(node, 'ButtonDrawTemplate')
+      anyPiece.buttonDrawTemplate = parseTemplateProperty(node, 'ButtonDrawTemplate', readButtonDrawTemplate)
       anyPiece.normalTexture = getChildText(node, 'NormalTexture')
       anyPiece.pressedTexture = getChildText(node, 'PressedTexture')
       anyPiece.flybyTexture = getChildText(node, 'FlybyTexture')
       anyPiece.disabledTexture = getChildText(node, 'DisabledTexture')
+      if (findChild(node, 'DecalOffset')) {
+        anyPiece.decalOffset = parsePoint(node, 'DecalOffset')
+      }
+      if (findChild(node, 'DecalSize')) {
+        anyPiece.decalSize = parseSize(node, 'DecalSize')
+      }
       anyPiece.isCheckbox = parseBoolean(node, 'Checkbox')
       anyPiece.checked = parseBoolean(node, 'Checked')
-      anyPiece.radioGroup = parseInt(getChildText(node, 'RadioGroup') || '0', 10)
+      anyPiece.radioGroup = getChildText(node, 'RadioGroup')
       break
 
     case 'Label':
@@ -513,7 +545,7 @@ function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
 
     case 'SpellGem':
       anyPiece.spellSlot = parseInt(getChildText(node, 'SpellSlot') || '0', 10)
-      anyPiece.spellGemDrawTemplate = getChildText(node, 'SpellGemDrawTemplate')
+      anyPiece.spellGemDrawTemplate = parseTemplateProperty(node, 'SpellGemDrawTemplate', readSpellGemDrawTemplate)
       break
 
     case 'HotButton':
@@ -547,7 +579,8 @@ function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
       break
 
     case 'Slider':
-      anyPiece.sliderDrawTemplate = getChildText(node, 'SliderDrawTemplate')
+      anyPiece.sliderDrawTemplate = parseTemplateProperty(node, 'SliderDrawTemplate', readSliderDrawTemplate)
+      anyPiece.sliderArt = getChildText(node, 'SliderArt')
       anyPiece.orientation = getChildText(node, 'Orientation') || 'horizontal'
       anyPiece.minValue = parseInt(getChildText(node, 'MinValue') || '0', 10)
       anyPiece.maxValue = parseInt(getChildText(node, 'MaxValue') || '100', 10)
@@ -571,15 +604,17 @@ function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
       anyPiece.sort = parseBoolean(node, 'Sort')
       anyPiece.highlightColor = parseRGB(node, 'HighlightColor')
 
-      const colContainer = node.querySelector(':scope > Columns')
-      if (colContainer) {
-        const columns: number[] = []
-        for (const widthNode of colContainer.querySelectorAll(':scope > Width')) {
-          const w = parseInt(widthNode.textContent || '0', 10)
-          if (!isNaN(w)) columns.push(w)
-        }
-        if (columns.length > 0) anyPiece.columns = columns
+      // Each column is its own <Columns> element with a Width and optional Heading
+      const columns: number[] = []
+      const headings: string[] = []
+      for (const colNode of findChildren(node, 'Columns')) {
+        const w = parseInt(getChildText(colNode, 'Width') || '', 10)
+        if (isNaN(w)) continue
+        columns.push(w)
+        headings.push(getChildText(colNode, 'Heading') || '')
       }
+      if (columns.length > 0) anyPiece.columns = columns
+      if (headings.some((heading) => heading)) anyPiece.columnHeadings = headings
       break
 
     case 'TabBox':
@@ -593,8 +628,8 @@ function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
     case 'Combobox':
       // Parse choices if present
       const choices: string[] = []
-      for (const choiceNode of node.querySelectorAll(':scope > Choices')) {
-        const choice = choiceNode.textContent?.trim()
+      for (const choiceNode of findChildren(node, 'Choices')) {
+        const choice = getTextContent(choiceNode).trim()
         if (choice) choices.push(choice)
       }
       if (choices.length > 0) {
@@ -607,7 +642,7 @@ function parseControlSpecificProps(node: Element, piece: ScreenPiece): void {
 /**
  * Parse style flags from a node
  */
-function parseStyleFlags(node: Element): StyleFlags {
+function parseStyleFlags(node: XmlElement): StyleFlags {
   return {
     transparent: parseBoolean(node, 'Style_Transparent'),
     border: parseBoolean(node, 'Style_Border'),
@@ -617,6 +652,7 @@ function parseStyleFlags(node: Element): StyleFlags {
     tilebox: parseBoolean(node, 'Style_Tilebox'),
     sizable: parseBoolean(node, 'Style_Sizable'),
     escapeClose: parseBoolean(node, 'Style_EscapeClose'),
+    checkbox: parseBoolean(node, 'Style_Checkbox'),
     vScroll: parseBoolean(node, 'Style_VScroll'),
     hScroll: parseBoolean(node, 'Style_HScroll'),
   }
@@ -625,8 +661,8 @@ function parseStyleFlags(node: Element): StyleFlags {
 /**
  * Parse TextureInfo
  */
-function parseTextureInfo(node: Element): TextureInfo | null {
-  const item = node.getAttribute('item')
+function parseTextureInfo(node: XmlElement): TextureInfo | null {
+  const item = node.attributes.item
   if (!item) return null
 
   return {
@@ -639,12 +675,13 @@ function parseTextureInfo(node: Element): TextureInfo | null {
 /**
  * Parse Ui2DAnimation
  */
-function parseUi2DAnimation(node: Element): Ui2DAnimation | null {
-  const item = node.getAttribute('item')
+function parseUi2DAnimation(node: XmlElement): Ui2DAnimation | null {
+  const item = node.attributes.item
   if (!item) return null
 
+  // EQ files list frames as repeated <Frames> elements; <Frame> is accepted too
   const frames: Frame[] = []
-  for (const frameNode of node.querySelectorAll('Frame')) {
+  for (const frameNode of findChildren(node, 'Frames', 'Frame')) {
     const frame = parseFrame(frameNode)
     if (frame) {
       frames.push(frame)
@@ -655,6 +692,7 @@ function parseUi2DAnimation(node: Element): Ui2DAnimation | null {
     item,
     cycle: parseBoolean(node, 'Cycle'),
     grid: parseBoolean(node, 'Grid'),
+    vertical: parseBoolean(node, 'Vertical'),
     rows: parseInt(getChildText(node, 'Rows') || '1', 10),
     cols: parseInt(getChildText(node, 'Cols') || '1', 10),
     cellWidth: parseInt(getChildText(node, 'CellWidth') || '0', 10),
@@ -666,7 +704,7 @@ function parseUi2DAnimation(node: Element): Ui2DAnimation | null {
 /**
  * Parse a Frame element
  */
-function parseFrame(node: Element): Frame | null {
+function parseFrame(node: XmlElement): Frame | null {
   return {
     texture: getChildText(node, 'Texture') || '',
     location: parsePoint(node, 'Location'),
@@ -679,10 +717,17 @@ function parseFrame(node: Element): Frame | null {
 /**
  * Parse FrameTemplate
  */
-function parseFrameTemplate(node: Element): FrameTemplate | null {
-  const item = node.getAttribute('item')
+function parseFrameTemplate(node: XmlElement): FrameTemplate | null {
+  const item = node.attributes.item
   if (!item) return null
 
+  return readFrameTemplate(node, item)
+}
+
+/**
+ * Read FrameTemplate properties (named definition or inline border/titlebar)
+ */
+function readFrameTemplate(node: XmlElement, item: string): FrameTemplate {
   return {
     item,
     topLeft: getChildText(node, 'TopLeft'),
@@ -698,16 +743,35 @@ function parseFrameTemplate(node: Element): FrameTemplate | null {
     right: getChildText(node, 'Right'),
     rightBottom: getChildText(node, 'RightBottom'),
     middle: getChildText(node, 'Middle'),
+    topLeftOverlapX: parseOptionalInt(node, 'TopLeftOverlapX'),
+    topLeftOverlapY: parseOptionalInt(node, 'TopLeftOverlapY'),
+    topRightOverlapX: parseOptionalInt(node, 'TopRightOverlapX'),
+    topRightOverlapY: parseOptionalInt(node, 'TopRightOverlapY'),
+    bottomLeftOverlapX: parseOptionalInt(node, 'BottomLeftOverlapX'),
+    bottomLeftOverlapY: parseOptionalInt(node, 'BottomLeftOverlapY'),
+    bottomRightOverlapX: parseOptionalInt(node, 'BottomRightOverlapX'),
+    bottomRightOverlapY: parseOptionalInt(node, 'BottomRightOverlapY'),
+    overlapLeft: parseOptionalInt(node, 'OverlapLeft'),
+    overlapTop: parseOptionalInt(node, 'OverlapTop'),
+    overlapRight: parseOptionalInt(node, 'OverlapRight'),
+    overlapBottom: parseOptionalInt(node, 'OverlapBottom'),
   }
 }
 
 /**
  * Parse ButtonDrawTemplate
  */
-function parseButtonDrawTemplate(node: Element): ButtonDrawTemplate | null {
-  const item = node.getAttribute('item')
+function parseButtonDrawTemplate(node: XmlElement): ButtonDrawTemplate | null {
+  const item = node.attributes.item
   if (!item) return null
 
+  return readButtonDrawTemplate(node, item)
+}
+
+/**
+ * Read ButtonDrawTemplate properties (named definition or inline on a Button)
+ */
+function readButtonDrawTemplate(node: XmlElement, item: string): ButtonDrawTemplate {
   return {
     item,
     normal: getChildText(node, 'Normal'),
@@ -715,20 +779,30 @@ function parseButtonDrawTemplate(node: Element): ButtonDrawTemplate | null {
     flyby: getChildText(node, 'Flyby'),
     disabled: getChildText(node, 'Disabled'),
     pressedFlyby: getChildText(node, 'PressedFlyby'),
+    pressedDisabled: getChildText(node, 'PressedDisabled'),
     normalDecal: getChildText(node, 'NormalDecal'),
     pressedDecal: getChildText(node, 'PressedDecal'),
     flybyDecal: getChildText(node, 'FlybyDecal'),
     disabledDecal: getChildText(node, 'DisabledDecal'),
+    pressedFlybyDecal: getChildText(node, 'PressedFlybyDecal'),
+    pressedDisabledDecal: getChildText(node, 'PressedDisabledDecal'),
   }
 }
 
 /**
  * Parse GaugeDrawTemplate
  */
-function parseGaugeDrawTemplate(node: Element): GaugeDrawTemplate | null {
-  const item = node.getAttribute('item')
+function parseGaugeDrawTemplate(node: XmlElement): GaugeDrawTemplate | null {
+  const item = node.attributes.item
   if (!item) return null
 
+  return readGaugeDrawTemplate(node, item)
+}
+
+/**
+ * Read GaugeDrawTemplate properties (named definition or inline on a Gauge)
+ */
+function readGaugeDrawTemplate(node: XmlElement, item: string): GaugeDrawTemplate {
   return {
     item,
     background: getChildText(node, 'Background'),
@@ -743,39 +817,185 @@ function parseGaugeDrawTemplate(node: Element): GaugeDrawTemplate | null {
 /**
  * Parse WindowDrawTemplate
  */
-function parseWindowDrawTemplate(node: Element): WindowDrawTemplate | null {
-  const item = node.getAttribute('item')
+function parseWindowDrawTemplate(node: XmlElement): WindowDrawTemplate | null {
+  const item = node.attributes.item
   if (!item) return null
 
   return {
     item,
     background: getChildText(node, 'Background'),
-    titlebar: getChildText(node, 'Titlebar'),
+    titlebar: parseTemplateProperty(node, 'Titlebar', readFrameTemplate),
     titlebarHeight: parseInt(getChildText(node, 'TitlebarHeight') || '0', 10),
-    closeButton: getChildText(node, 'CloseButton'),
-    minimizeButton: getChildText(node, 'MinimizeButton'),
-    tileButton: getChildText(node, 'TileButton'),
-    border: getChildText(node, 'Border'),
-    verticalScrollbar: getChildText(node, 'VerticalScrollbar'),
-    horizontalScrollbar: getChildText(node, 'HorizontalScrollbar'),
+    closeButton: parseTemplateProperty(node, 'CloseBox', readButtonDrawTemplate),
+    minimizeButton: parseTemplateProperty(node, 'MinimizeBox', readButtonDrawTemplate),
+    tileButton: parseTemplateProperty(node, 'TileBox', readButtonDrawTemplate),
+    qmarkButton: parseTemplateProperty(node, 'QMarkBox', readButtonDrawTemplate),
+    maximizeButton: parseTemplateProperty(node, 'MaximizeBox', readButtonDrawTemplate),
+    border: parseTemplateProperty(node, 'Border', readFrameTemplate),
+    verticalScrollbar: parseTemplateProperty(node, 'VSBTemplate', readScrollbarDrawTemplate),
+    horizontalScrollbar: parseTemplateProperty(node, 'HSBTemplate', readScrollbarDrawTemplate),
+  }
+}
+
+/**
+ * Parse SliderDrawTemplate
+ */
+function parseSliderDrawTemplate(node: XmlElement): SliderDrawTemplate | null {
+  const item = node.attributes.item
+  if (!item) return null
+
+  return readSliderDrawTemplate(node, item)
+}
+
+/**
+ * Read SliderDrawTemplate properties (named definition or inline on a Slider)
+ */
+function readSliderDrawTemplate(node: XmlElement, item: string): SliderDrawTemplate {
+  return {
+    item,
+    background: getChildText(node, 'Background'),
+    thumb: parseTemplateProperty(node, 'Thumb', readButtonDrawTemplate),
+    endCapLeft: getChildText(node, 'EndCapLeft'),
+    endCapRight: getChildText(node, 'EndCapRight'),
+  }
+}
+
+/**
+ * Parse ScrollbarDrawTemplate
+ */
+function parseScrollbarDrawTemplate(node: XmlElement): ScrollbarDrawTemplate | null {
+  const item = node.attributes.item
+  if (!item) return null
+
+  return readScrollbarDrawTemplate(node, item)
+}
+
+/**
+ * Read ScrollbarDrawTemplate properties (named definition or inline VSBTemplate/HSBTemplate)
+ */
+function readScrollbarDrawTemplate(node: XmlElement, item: string): ScrollbarDrawTemplate {
+  return {
+    item,
+    background: getChildText(node, 'Background'),
+    thumb: parseTemplateProperty(node, 'Thumb', readFrameTemplate),
+    upButton: parseTemplateProperty(node, 'UpButton', readButtonDrawTemplate),
+    downButton: parseTemplateProperty(node, 'DownButton', readButtonDrawTemplate),
+    middleTextureInfo: getChildText(node, 'MiddleTextureInfo'),
+    middleTint: parseRGB(node, 'MiddleTint'),
+  }
+}
+
+/**
+ * Parse SpellGemDrawTemplate
+ */
+function parseSpellGemDrawTemplate(node: XmlElement): SpellGemDrawTemplate | null {
+  const item = node.attributes.item
+  if (!item) return null
+
+  return readSpellGemDrawTemplate(node, item)
+}
+
+/**
+ * Read SpellGemDrawTemplate properties (named definition or inline on a SpellGem)
+ */
+function readSpellGemDrawTemplate(node: XmlElement, item: string): SpellGemDrawTemplate {
+  return {
+    item,
+    background: getChildText(node, 'Background'),
+    holder: getChildText(node, 'Holder'),
+    highlight: getChildText(node, 'Highlight'),
   }
 }
 
 // ============ Helper Functions ============
 
+/**
+ * Parse a template property that is either defined inline (with child
+ * elements) or given as the name of a top-level template definition.
+ */
+function parseTemplateProperty<T>(
+  parent: XmlElement,
+  childName: string,
+  readInline: (node: XmlElement, item: string) => T
+): T | string | undefined {
+  const child = findChild(parent, childName)
+  if (!child) return undefined
+
+  if (child.children.length > 0) {
+    return readInline(child, parent.attributes.item || childName)
+  }
+  return getTextContent(child).trim() || undefined
+}
+
+/**
+ * Where a raw property sat among the tags before it
+ */
+function getSourcePosition(previousTags: string[]): Pick<RawProperty, 'after' | 'earlier'> {
+  const [after = null, ...rest] = [...new Set([...previousTags].reverse())]
+  return rest.length > 0 ? { after, earlier: rest } : { after }
+}
+
+/**
+ * Copy an element the model doesn't cover, attributes included
+ */
+function readRawElement(node: XmlElement): RawElement {
+  const raw: RawElement = { name: node.tagName }
+  if (Object.keys(node.attributes).length > 0) {
+    raw.attributes = { ...node.attributes }
+  }
+  if (node.children.length > 0) {
+    raw.children = [...node.children].map(readRawElement)
+  } else {
+    const text = getTextContent(node).trim()
+    if (text) raw.text = text
+  }
+  return raw
+}
+
 /**
  * Get text content of a child element
  */
-function getChildText(parent: Element, childName: string): string | undefined {
-  const child = parent.querySelector(`:scope > ${childName}`)
-  return child?.textContent?.trim() || undefined
+function getChildText(parent: XmlElement, childName: string): string | undefined {
+  const child = findChild(parent, childName)
+  return (child && getTextContent(child).trim()) || undefined
+}
+
+/**
+ * Parse a <Pieces> or <Pages> reference
+ */
+function parseReference(node: XmlElement): PieceReference | null {
+  const text = getTextContent(node).trim()
+  if (!text) return null
+
+  // Strip type prefix if present (e.g. "Screen:Name" -> "Name")
+  const name = text.includes(':') ? text.split(':')[1] : text
+  return { tag: node.tagName === 'Pages' ? 'Pages' : 'Pieces', name, text }
+}
+
+/**
+ * Parse an anchor offset. EQ files use TopAnchorOffset etc.; the shorter
+ * TopOffset form is accepted too.
+ */
+function parseAnchorOffset(parent: XmlElement, side: 'Top' | 'Bottom' | 'Left' | 'Right'): number {
+  const text = getChildText(parent, `${side}AnchorOffset`) ?? getChildText(parent, `${side}Offset`)
+  return parseInt(text || '0', 10)
+}
+
+/**
+ * Parse an optional integer child element
+ */
+function parseOptionalInt(parent: XmlElement, childName: string): number | undefined {
+  const text = getChildText(parent, childName)
+  if (text === undefined) return undefined
+  const value = parseInt(text, 10)
+  return isNaN(value) ? undefined : value
 }
 
 /**
  * Parse a Point from child elements
  */
-function parsePoint(parent: Element, containerName: string): Point {
-  const container = parent.querySelector(`:scope > ${containerName}`)
+function parsePoint(parent: XmlElement, containerName: string): Point {
+  const container = findChild(parent, containerName)
   if (!container) {
     return { x: 0, y: 0 }
   }
@@ -789,8 +1009,8 @@ function parsePoint(parent: Element, containerName: string): Point {
 /**
  * Parse a Size from child elements
  */
-function parseSize(parent: Element, containerName: string): Size {
-  const container = parent.querySelector(`:scope > ${containerName}`)
+function parseSize(parent: XmlElement, containerName: string): Size {
+  const container = findChild(parent, containerName)
   if (!container) {
     return { cx: 0, cy: 0 }
   }
@@ -804,8 +1024,8 @@ function parseSize(parent: Element, containerName: string): Size {
 /**
  * Parse RGB color from child elements
  */
-function parseRGB(parent: Element, containerName: string): RGB | undefined {
-  const container = parent.querySelector(`:scope > ${containerName}`)
+function parseRGB(parent: XmlElement, containerName: string): RGB | undefined {
+  const container = findChild(parent, containerName)
   if (!container) {
     return undefined
   }
@@ -821,12 +1041,26 @@ function parseRGB(parent: Element, containerName: string): RGB | undefined {
 /**
  * Parse a boolean value
  */
-function parseBoolean(parent: Element, childName: string, defaultValue = false): boolean {
+function parseBoolean(parent: XmlElement, childName: string, defaultValue = false): boolean {
   const text = getChildText(parent, childName)
   if (text === undefined) return defaultValue
   return text.toLowerCase() === 'true' || text === '1'
 }
 
+/**
+ * Parse the XML of a single element into a raw element
+ */
+export function parseRawElement(xml: string): RawElement {
+  let root: XmlElement
+  try {
+    root = parseXml(xml)
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err
+    throw new Error(`XML parse error: ${err.message} (line ${createLineIndex(xml)(err.offset)})`)
+  }
+  return readRawElement(root)
+}
+
 /**
  * Resolve Pieces references across multiple parsed files.
  * This links parent elements to their children by item name.
@@ -835,9 +1069,9 @@ export function resolvePiecesReferences(parsedFiles: ParsedEquiFile[]): void {
   // Build a global item registry from all files
   const globalRegistry = new Map<string, ScreenPiece>()
 
-  // Also consolidate all unresolved references: Map<PieceID, ChildNames[]>
+  // Also consolidate all unresolved references: Map<PieceID, References[]>
   // We need to look up unresolved references by ID.
-  const globalUnresolved = new Map<string, string[]>()
+  const globalUnresolved = new Map<string, PieceReference[]>()
 
   // Map ID to Piece for iteration
   const allPiecesById = new Map<string, ScreenPiece>()
@@ -877,18 +1111,12 @@ export function resolvePiecesReferences(parsedFiles: ParsedEquiFile[]): void {
     processing.add(piece.id)
 
     // 1. Resolve pending references for THIS piece (add them as children)
-    const childNames = globalUnresolved.get(piece.id)
-    if (childNames) {
-      if (piece.item === 'ACTW_ActionsSubwindows') {
-        console.log('Resolving parent:', piece.item, 'with children:', childNames)
-      }
-      for (const name of childNames) {
+    const childRefs = globalUnresolved.get(piece.id)
+    if (childRefs) {
+      for (const ref of childRefs) {
+        const name = ref.name
         const childDef = globalRegistry.get(name)
         if (childDef) {
-          if (name === 'ActionsAbilitiesPage') {
-            console.log('Found child definition for:', name, 'isReferenced BEFORE:', childDef.isReferenced)
-          }
-
           // RECURSE: Ensure the child definition is fully resolved first
           // This ensures that if childDef has its own children (refs), they are added BEFORE we clone it.
           resolve(childDef)
@@ -898,15 +1126,18 @@ export function resolvePiecesReferences(parsedFiles: ParsedEquiFile[]): void {
           const childCopy = cloneScreenPiece(childDef)
           childCopy.parentId = piece.id
 
+          // Remember where the copy came from so it exports as a reference
+          // and edits can be mirrored to every use of the definition
+          childCopy.reference = ref
+          linkToDefinition(childCopy, childDef)
+
           piece.children.push(childCopy)
 
           // Mark original as referenced (hidden from root)
           childDef.isReferenced = true
-          if (name === 'ActionsAbilitiesPage') {
-            console.log('Marked child referenced:', name, 'isReferenced AFTER:', childDef.isReferenced)
-          }
         } else {
           console.warn('Could not find child definition for:', name, 'required by:', piece.item)
+          piece.unresolvedReferences = [...(piece.unresolvedReferences || []), { ...ref, index: piece.children.length }]
         }
       }
     }
@@ -931,6 +1162,17 @@ export function resolvePiecesReferences(parsedFiles: ParsedEquiFile[]): void {
   }
 }
 
+/**
+ * Point every node of a copied subtree at the definition node it mirrors
+ */
+function linkToDefinition(copy: ScreenPiece, definition: ScreenPiece): void {
+  copy.sourceId = definition.sourceId ?? definition.id
+  copy.children.forEach((child, index) => {
+    const source = definition.children[index]
+    if (source) linkToDefinition(child, source)
+  })
+}
+
 /**
  * Check if a parsed file is a manifest (contains Include directives)
  */
@@ -0,0 +1,221 @@
+/**
+ * Schema Validator
+ *
+ * Checks EQUI XML against a SIDL schema: unknown element types, properties
+ * a type does not define, values of the wrong type and properties that are
+ * missing or repeated too often. Every problem carries its source line and
+ * the item of the definition it was found in. Against a partial schema, such
+ * as the bundled one, names it doesn't know are only warnings.
+ */
+
+import type { SidlSchema, PropertyDefinition } from './SidlParser'
+import { getInheritedProperties } from './SidlParser'
+import type { ParseError } from './EquiParser'
+import { scanXml, createLineIndex, decodeXml, XmlSyntaxError, type SourceElement } from './XmlScanner'
+
+/** Top-level tags that structure the file rather than define elements */
+const STRUCTURAL_TAGS = new Set(['Schema', 'Composite'])
+
+/** Value types with nested properties rather than text */
+const COMPOUND_VALUE_TYPES = new Set(['RGB', 'Point', 'Size'])
+
+interface ValidationContext {
+  text: string
+  schema: SidlSchema
+  lineOf: (offset: number) => number
+  properties: Map<string, Map<string, PropertyDefinition>>
+  problems: ParseError[]
+}
+
+/**
+ * Validate the XML of one file against a schema
+ */
+export function validateEquiXml(xmlContent: string, schema: SidlSchema): ParseError[] {
+  const lineOf = createLineIndex(xmlContent)
+
+  let roots: SourceElement[]
+  try {
+    roots = scanXml(xmlContent)
+  } catch (err) {
+    if (err instanceof XmlSyntaxError) {
+      return [{ message: `Malformed XML: ${err.message}`, line: lineOf(err.offset), severity: 'error' }]
+    }
+    throw err
+  }
+
+  const ctx: ValidationContext = {
+    text: xmlContent,
+    schema,
+    lineOf,
+    properties: new Map(),
+    problems: [],
+  }
+
+  const root = roots[0]
+  if (!root) return ctx.problems
+
+  for (const element of root.children) {
+    if (STRUCTURAL_TAGS.has(element.name)) continue
+
+    if (!schema.elementTypes.has(element.name)) {
+      report(ctx, element, element.item, `Unknown element type <${element.name}>`, getUnknownSeverity(ctx))
+      continue
+    }
+    validateProperties(ctx, element, element.name, element.item)
+  }
+
+  return ctx.problems
+}
+
+/**
+ * Check the children of an element against the properties of its type
+ */
+function validateProperties(
+  ctx: ValidationContext,
+  element: SourceElement,
+  typeName: string,
+  item: string | undefined
+): void {
+  const properties = getPropertyMap(ctx, typeName)
+  const counts = new Map<string, number>()
+
+  for (const child of element.children) {
+    const definition = properties.get(child.name)
+    if (!definition) {
+      const suggestion = findSimilarName(child.name, properties.keys())
+      const hint = suggestion ? ` Did you mean <${suggestion}>?` : ''
+      report(ctx, child, item, `<${child.name}> is not a property of ${typeName}.${hint}`, getUnknownSeverity(ctx))
+      continue
+    }
+
+    const count = (counts.get(child.name) ?? 0) + 1
+    counts.set(child.name, count)
+    if (typeof definition.maxOccurs === 'number' && count === definition.maxOccurs + 1) {
+      report(ctx, child, item, `${typeName} allows at most ${definition.maxOccurs} <${child.name}>`, 'warning')
+    }
+
+    validateValue(ctx, child, definition, item)
+  }
+
+  for (const definition of properties.values()) {
+    if (definition.minOccurs && (counts.get(definition.name) ?? 0) < definition.minOccurs) {
+      report(ctx, element, item, `${typeName} is missing required <${definition.name}>`)
+    }
+  }
+}
+
+/**
+ * Check a property's value against its declared type
+ */
+function validateValue(
+  ctx: ValidationContext,
+  element: SourceElement,
+  definition: PropertyDefinition,
+  item: string | undefined
+): void {
+  const name = element.name
+  const hasChildren = element.children.length > 0
+  const value = hasChildren ? '' : decodeXml(ctx.text.slice(element.contentStart, element.contentEnd)).trim()
+
+  switch (definition.type) {
+    case 'integer':
+      // Fractional values appear in shipped files (e.g. Font), so any number passes
+      if (hasChildren || !/^[-+]?(\d+\.?\d*|\.\d+)$/.test(value)) {
+        report(ctx, element, item, `<${name}> should be a number, found "${value}"`)
+      }
+      return
+
+    case 'boolean':
+      if (hasChildren || !/^(true|false)$/i.test(value)) {
+        report(ctx, element, item, `<${name}> should be true or false, found "${value}"`)
+      }
+      return
+
+    case 'string':
+      if (hasChildren) {
+        report(ctx, element, item, `<${name}> should be text, not nested elements`)
+      }
+      return
+  }
+
+  if (definition.isReference) {
+    if (hasChildren) {
+      report(ctx, element, item, `<${name}> should name a ${definition.type}, not contain one`)
+    } else if (!value) {
+      report(ctx, element, item, `<${name}> is empty`, 'warning')
+    }
+    return
+  }
+
+  if (hasChildren) {
+    if (ctx.schema.elementTypes.has(definition.type)) {
+      validateProperties(ctx, element, definition.type, item)
+    }
+  } else if (value && COMPOUND_VALUE_TYPES.has(definition.type)) {
+    report(ctx, element, item, `<${name}> should contain ${definition.type} properties, found "${value}"`)
+  }
+  // Other compound types written as text name a definition by its item
+}
+
+function getPropertyMap(ctx: ValidationContext, typeName: string): Map<string, PropertyDefinition> {
+  let map = ctx.properties.get(typeName)
+  if (!map) {
+    // Subtypes may redefine an inherited property; the most derived one wins
+    map = new Map(getInheritedProperties(ctx.schema, typeName).map((p) => [p.name, p]))
+    ctx.properties.set(typeName, map)
+  }
+  return map
+}
+
+// Names missing from a partial schema may be ones it leaves out
+function getUnknownSeverity(ctx: ValidationContext): 'error' | 'warning' {
+  return ctx.schema.isPartial ? 'warning' : 'error'
+}
+
+function report(
+  ctx: ValidationContext,
+  element: SourceElement,
+  item: string | undefined,
+  message: string,
+  severity: 'error' | 'warning' = 'error'
+): void {
+  ctx.problems.push({
+    message,
+    line: ctx.lineOf(element.start),
+    element: element.name,
+    severity,
+    item,
+  })
+}
+
+/**
+ * A known name that differs only by case or a couple of typos
+ */
+function findSimilarName(name: string, candidates: Iterable<string>): string | undefined {
+  const lower = name.toLowerCase()
+  let best: string | undefined
+  let bestDistance = 3
+
+  for (const candidate of candidates) {
+    if (candidate.toLowerCase() === lower) return candidate
+    const distance = editDistance(lower, candidate.toLowerCase())
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
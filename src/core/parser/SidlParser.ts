@@ -5,6 +5,17 @@
  * all valid element types, properties, and inheritance relationships.
  */
 
+import { createLineIndex, XmlSyntaxError } from './XmlScanner'
+import {
+  parseXml,
+  getTextContent,
+  findChild,
+  findChildren,
+  findDescendant,
+  findDescendants,
+  type XmlElement,
+} from './XmlTree'
+
 /** Property definition from SIDL */
 export interface PropertyDefinition {
   name: string
@@ -27,19 +38,19 @@ export interface ElementTypeDefinition {
 export interface SidlSchema {
   elementTypes: Map<string, ElementTypeDefinition>
   inheritanceMap: Map<string, string> // child -> parent
+  isPartial?: boolean // A subset, such as the bundled copy; what it lacks may still be valid
 }
 
 /**
  * Parse SIDL.xml content into a schema object
  */
 export function parseSidl(xmlContent: string): SidlSchema {
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(xmlContent, 'text/xml')
-
-  // Check for parse errors
-  const parseError = doc.querySelector('parsererror')
-  if (parseError) {
-    throw new Error(`XML parse error: ${parseError.textContent}`)
+  let root: XmlElement
+  try {
+    root = parseXml(xmlContent)
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err
+    throw new Error(`XML parse error: ${err.message} (line ${createLineIndex(xmlContent)(err.offset)})`)
   }
 
   const schema: SidlSchema = {
@@ -48,7 +59,7 @@ export function parseSidl(xmlContent: string): SidlSchema {
   }
 
   // Find all ElementType definitions
-  const elementTypes = doc.querySelectorAll('ElementType')
+  const elementTypes = findDescendants(root, 'ElementType')
 
   for (const elementType of elementTypes) {
     const definition = parseElementType(elementType)
@@ -66,16 +77,16 @@ export function parseSidl(xmlContent: string): SidlSchema {
 /**
  * Parse a single ElementType node
  */
-function parseElementType(node: Element): ElementTypeDefinition {
-  const name = node.getAttribute('name') || 'Unknown'
+function parseElementType(node: XmlElement): ElementTypeDefinition {
+  const name = node.attributes.name || 'Unknown'
 
   // Check for superType (inheritance)
-  const superTypeNode = node.querySelector(':scope > superType')
-  const superType = superTypeNode?.textContent?.trim()
+  const superTypeNode = findChild(node, 'superType')
+  const superType = superTypeNode && getTextContent(superTypeNode).trim()
 
   // Parse all element (property) definitions
   const properties: PropertyDefinition[] = []
-  const elementNodes = node.querySelectorAll(':scope > element')
+  const elementNodes = findChildren(node, 'element')
 
   for (const elementNode of elementNodes) {
     const prop = parseProperty(elementNode)
@@ -94,26 +105,26 @@ function parseElementType(node: Element): ElementTypeDefinition {
 /**
  * Parse a property (element) definition
  */
-function parseProperty(node: Element): PropertyDefinition | null {
-  const name = node.getAttribute('name')
-  const type = node.getAttribute('type')
+function parseProperty(node: XmlElement): PropertyDefinition | null {
+  const name = node.attributes.name
+  const type = node.attributes.type
 
   if (!name || !type) {
     return null
   }
 
   // Parse occurrence constraints
-  const minOccurs = node.getAttribute('minOccurs')
-  const maxOccurs = node.getAttribute('maxOccurs')
+  const minOccurs = node.attributes.minOccurs
+  const maxOccurs = node.attributes.maxOccurs
 
   // Check if this is a reference to another ElementType
   const isReference = type.includes(':item') || type.startsWith(':')
 
   // Parse default value if present
-  const defaultNode = node.querySelector('default')
+  const defaultNode = findDescendant(node, 'default')
   let defaultValue: string | number | boolean | undefined
   if (defaultNode) {
-    const defaultText = defaultNode.textContent?.trim()
+    const defaultText = getTextContent(defaultNode).trim()
     if (defaultText !== undefined) {
       if (type === 'integer') {
         defaultValue = parseInt(defaultText, 10)
@@ -160,6 +171,27 @@ export function getInheritedProperties(
   return properties
 }
 
+/**
+ * Get the type and its ancestors, root type first
+ */
+export function getInheritanceChain(
+  schema: SidlSchema,
+  typeName: string
+): ElementTypeDefinition[] {
+  const chain: ElementTypeDefinition[] = []
+  let currentType = typeName
+
+  while (currentType) {
+    const definition = schema.elementTypes.get(currentType)
+    // Stop on unknown types and on cycles in a malformed schema
+    if (!definition || chain.includes(definition)) break
+    chain.unshift(definition)
+    currentType = definition.superType || ''
+  }
+
+  return chain
+}
+
 /**
  * Check if a type inherits from another type
  */
@@ -0,0 +1,380 @@
+/**
+ * XML Patcher
+ *
+ * Format-preserving export. Instead of regenerating a file, the freshly
+ * serialized XML is matched element-by-element against the file's original
+ * source and only the properties, elements and references that actually
+ * changed are spliced into the original text. Comments, element order,
+ * whitespace, line endings and unknown tags are left untouched.
+ */
+
+import type { UIFile } from '@/models/project/Project'
+import { parseEquiFile } from './EquiParser'
+import { serializeUIFile, escapeXml } from './XmlSerializer'
+import { scanXml, decodeXml, type SourceElement } from './XmlScanner'
+
+/** A text replacement against the original source */
+interface Edit {
+  start: number
+  end: number
+  text: string
+}
+
+interface PatchContext {
+  original: string
+  generated: string
+  newline: string
+  indentUnit: string
+  descriptions: Map<string, string>
+}
+
+/**
+ * Serialize a UIFile by patching its original XML. Falls back to a full
+ * regeneration when the file has no original source or it cannot be scanned.
+ */
+export function patchUIFile(file: UIFile): string {
+  const generated = serializeUIFile(file)
+  const original = file.originalXml
+  if (!original) return generated
+
+  let originalRoot: SourceElement | undefined
+  let generatedRoot: SourceElement | undefined
+  try {
+    originalRoot = scanXml(original)[0]
+    generatedRoot = scanXml(generated)[0]
+  } catch (err) {
+    console.warn(`Cannot patch ${file.filename}, regenerating instead:`, err)
+    return generated
+  }
+  if (!originalRoot || !generatedRoot) return generated
+
+  const ctx: PatchContext = {
+    original,
+    generated,
+    newline: original.includes('\r\n') ? '\r\n' : '\n',
+    indentUnit: detectIndentUnit(original, originalRoot),
+    descriptions: new Map(),
+  }
+
+  const edits = patchChildren(ctx, originalRoot, generatedRoot, null)
+  return applyEdits(original, 0, original.length, edits)
+}
+
+/**
+ * Rename top-level definitions in original source, so a renamed definition
+ * is still paired with its original text rather than rewritten whole
+ */
+export function renameItemAttribute(original: string, oldName: string, newName: string): string {
+  let root: SourceElement | undefined
+  try {
+    root = scanXml(original)[0]
+  } catch {
+    return original
+  }
+  if (!root) return original
+
+  const edits: Edit[] = []
+  for (const element of root.children) {
+    if (element.item !== oldName) continue
+    const tag = original.slice(element.start, element.contentStart)
+    // Only the value changes; the attribute keeps its spacing and quotes
+    const match = /\bitem\s*=\s*(["'])/.exec(tag)
+    if (!match) continue
+    const start = element.start + match.index + match[0].length
+    const end = original.indexOf(match[1], start)
+    edits.push({ start, end, text: escapeXml(newName) })
+  }
+  return applyEdits(original, 0, original.length, edits)
+}
+
+// ============ Matching ============
+
+/**
+ * Patch a top-level definition. Elements that still parse to the same model
+ * are kept verbatim, so formatting-only differences never produce edits.
+ */
+function patchTopLevel(ctx: PatchContext, o: SourceElement, g: SourceElement): string {
+  const originalText = ctx.original.slice(o.start, o.end)
+  const generatedText = ctx.generated.slice(g.start, g.end)
+
+  if (normalize(originalText) === normalize(generatedText)) return originalText
+  if (describe(ctx, originalText) === describe(ctx, generatedText)) return originalText
+
+  return patchElement(ctx, o, g, o)
+}
+
+/**
+ * Patch one element nested inside the top-level definition `top`
+ */
+function patchElement(ctx: PatchContext, o: SourceElement, g: SourceElement, top: SourceElement): string {
+  const originalText = ctx.original.slice(o.start, o.end)
+
+  if (o.children.length === 0 && g.children.length === 0) {
+    const originalValue = ctx.original.slice(o.contentStart, o.contentEnd)
+    const generatedValue = ctx.generated.slice(g.contentStart, g.contentEnd)
+    if (decodeXml(originalValue.trim()) === decodeXml(generatedValue.trim())) return originalText
+    if (!o.selfClosing) {
+      // Equivalent spellings ("1.0" vs "1") keep the original text
+      if (!changesModel(ctx, top, o.contentStart, o.contentEnd, generatedValue)) return originalText
+      return ctx.original.slice(o.start, o.contentStart) + generatedValue + ctx.original.slice(o.contentEnd, o.end)
+    }
+  }
+
+  if (o.children.length === 0 || g.children.length === 0) {
+    const text = reindent(ctx, g, indentOf(ctx.original, o.start))
+    return changesModel(ctx, top, o.start, o.end, text) ? text : originalText
+  }
+
+  return applyEdits(ctx.original, o.start, o.end, patchChildren(ctx, o, g, top))
+}
+
+/**
+ * Match the children of two elements and collect the edits that turn the
+ * original children into the generated ones. `top` is null at the root,
+ * where children are whole definitions.
+ */
+function patchChildren(
+  ctx: PatchContext,
+  o: SourceElement,
+  g: SourceElement,
+  top: SourceElement | null
+): Edit[] {
+  const originalGroups = groupByKey(o.children)
+  const generatedGroups = groupByKey(g.children)
+  const pairs = new Map<SourceElement, SourceElement>()
+
+  for (const [key, generatedGroup] of generatedGroups) {
+    const originalGroup = originalGroups.get(key) ?? []
+    if (originalGroup.length === 1 && generatedGroup.length === 1) {
+      pairs.set(generatedGroup[0], originalGroup[0])
+    } else {
+      matchGroup(ctx, originalGroup, generatedGroup, pairs, top)
+    }
+  }
+
+  const edits: Edit[] = []
+  const paired = new Set(pairs.values())
+
+  // Removed children, then changed ones
+  for (const child of o.children) {
+    if (paired.has(child)) continue
+    const removable = top ? changesModel(ctx, top, child.start, child.end, '') : definesContent(ctx, child)
+    if (removable) {
+      edits.push({ ...lineRange(ctx.original, child), text: '' })
+    }
+  }
+  for (const [generatedChild, originalChild] of pairs) {
+    const text = top
+      ? patchElement(ctx, originalChild, generatedChild, top)
+      : patchTopLevel(ctx, originalChild, generatedChild)
+    if (text !== ctx.original.slice(originalChild.start, originalChild.end)) {
+      edits.push({ start: originalChild.start, end: originalChild.end, text })
+    }
+  }
+
+  // Added children go after the nearest preceding sibling that was kept
+  const childIndent = o.children.length > 0
+    ? indentOf(ctx.original, o.children[0].start)
+    : indentOf(ctx.original, o.start) + ctx.indentUnit
+  let anchor = o.contentStart
+  for (const generatedChild of g.children) {
+    const originalChild = pairs.get(generatedChild)
+    if (originalChild) {
+      anchor = originalChild.end
+      continue
+    }
+    const text = ctx.newline + childIndent + reindent(ctx, generatedChild, childIndent)
+    if (!top || changesModel(ctx, top, anchor, anchor, text)) {
+      edits.push({ start: anchor, end: anchor, text })
+    }
+  }
+
+  return edits
+}
+
+/**
+ * Pair repeated elements (Pieces, Frames, Columns...) along their longest
+ * common subsequence. Entries left between two matches are paired in order
+ * so they are edited in place rather than removed and re-added.
+ */
+function matchGroup(
+  ctx: PatchContext,
+  originalGroup: SourceElement[],
+  generatedGroup: SourceElement[],
+  pairs: Map<SourceElement, SourceElement>,
+  top: SourceElement | null
+): void {
+  const a = originalGroup.map((el) => normalize(ctx.original.slice(el.start, el.end)))
+  const b = generatedGroup.map((el) => normalize(ctx.generated.slice(el.start, el.end)))
+
+  // Compound entries may differ only in omitted defaults, so compare what they parse to
+  const same = (i: number, j: number): boolean => {
+    if (a[i] === b[j]) return true
+    const o = originalGroup[i]
+    const g = generatedGroup[j]
+    if (!top || o.children.length === 0 || g.children.length === 0) return false
+    return !changesModel(ctx, top, o.start, o.end, reindent(ctx, g, indentOf(ctx.original, o.start)))
+  }
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  let runI = 0
+  let runJ = 0
+  const pairRun = (): void => {
+    for (let k = 0; k < Math.min(i - runI, j - runJ); k++) {
+      pairs.set(generatedGroup[runJ + k], originalGroup[runI + k])
+    }
+  }
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      pairRun()
+      pairs.set(generatedGroup[j], originalGroup[i])
+      i++
+      j++
+      runI = i
+      runJ = j
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  i = a.length
+  j = b.length
+  pairRun()
+}
+
+function groupByKey(elements: SourceElement[]): Map<string, SourceElement[]> {
+  const groups = new Map<string, SourceElement[]>()
+  for (const el of elements) {
+    const key = `${el.name}|${el.item ?? ''}`
+    const group = groups.get(key)
+    if (group) {
+      group.push(el)
+    } else {
+      groups.set(key, [el])
+    }
+  }
+  return groups
+}
+
+// ============ Parse Checks ============
+
+/**
+ * Whether replacing a range inside a top-level definition changes what it
+ * parses to. Unknown tags and values equal to the defaults make no change.
+ */
+function changesModel(ctx: PatchContext, top: SourceElement, start: number, end: number, text: string): boolean {
+  const topText = ctx.original.slice(top.start, top.end)
+  const changed = ctx.original.slice(top.start, start) + text + ctx.original.slice(end, top.end)
+  return describe(ctx, changed) !== describe(ctx, topText)
+}
+
+/**
+ * Whether a top-level element defines anything the model knows about
+ */
+function definesContent(ctx: PatchContext, el: SourceElement): boolean {
+  return describe(ctx, ctx.original.slice(el.start, el.end)) !== describe(ctx, '')
+}
+
+/**
+ * Parse a fragment of top-level elements into a comparable string
+ */
+function describe(ctx: PatchContext, fragment: string): string {
+  const cached = ctx.descriptions.get(fragment)
+  if (cached !== undefined) return cached
+
+  const parsed = parseEquiFile(`<XML>${fragment}</XML>`, 'fragment.xml')
+  const description = JSON.stringify(
+    {
+      screens: parsed.screens,
+      templates: parsed.templates,
+      references: [...parsed.unresolvedPieces.values()],
+    },
+    (key, value) => {
+      // Raw properties are matched by tag; where they sat is the source's business
+      if (key === 'id' || key === 'parentId' || key === 'after' || key === 'earlier') return undefined
+      return value instanceof Map ? Object.fromEntries(value) : value
+    }
+  )
+  ctx.descriptions.set(fragment, description)
+  return description
+}
+
+// ============ Text Helpers ============
+
+function applyEdits(text: string, from: number, to: number, edits: Edit[]): string {
+  // Insertions sort ahead of a replacement starting at the same offset
+  const sorted = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => a.edit.start - b.edit.start || a.edit.end - b.edit.end || a.index - b.index)
+
+  let result = ''
+  let cursor = from
+  for (const { edit } of sorted) {
+    result += text.slice(cursor, edit.start) + edit.text
+    cursor = edit.end
+  }
+  return result + text.slice(cursor, to)
+}
+
+/**
+ * The range covering an element, widened to its whole line when it stands
+ * alone on it so removals leave no blank line behind
+ */
+function lineRange(text: string, el: SourceElement): { start: number; end: number } {
+  const lineStart = text.lastIndexOf('\n', el.start - 1) + 1
+  const newline = text.indexOf('\n', el.end)
+  const rest = newline < 0 ? text.slice(el.end) : text.slice(el.end, newline)
+
+  if (/^[ \t]*$/.test(text.slice(lineStart, el.start)) && /^[ \t\r]*$/.test(rest)) {
+    return { start: lineStart, end: newline < 0 ? text.length : newline + 1 }
+  }
+  return { start: el.start, end: el.end }
+}
+
+/**
+ * The whitespace before an element on its line
+ */
+function indentOf(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+  const prefix = text.slice(lineStart, offset)
+  return /^[ \t]*$/.test(prefix) ? prefix : ''
+}
+
+function detectIndentUnit(text: string, root: SourceElement): string {
+  const first = root.children[0]
+  return (first && indentOf(text, first.start)) || '  '
+}
+
+/**
+ * Generated element text re-indented for insertion at `indent`, using the
+ * original file's indent unit and line endings
+ */
+function reindent(ctx: PatchContext, g: SourceElement, indent: string): string {
+  const base = indentOf(ctx.generated, g.start)
+  return ctx.generated
+    .slice(g.start, g.end)
+    .split('\n')
+    .map((line, i) => {
+      if (i === 0) return line
+      const relative = line.startsWith(base) ? line.slice(base.length) : line.trimStart()
+      const depth = relative.match(/^(?: {2})*/)?.[0].length ?? 0
+      return indent + ctx.indentUnit.repeat(depth / 2) + relative.slice(depth)
+    })
+    .join(ctx.newline)
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/>\s+</g, '><')
+    .trim()
+}
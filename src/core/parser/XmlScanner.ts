@@ -0,0 +1,255 @@
+/**
+ * XML Scanner
+ *
+ * A small, DOM-free XML tokenizer and the offset-tracking scanner built on
+ * it. Unlike DOMParser it reports where every element starts and ends in the
+ * source text, which the patcher uses to splice edits into the original file
+ * and the validator uses for line numbers. It runs anywhere: the main
+ * thread, a Web Worker or Node.
+ */
+
+/** An element located in XML source text */
+export interface SourceElement {
+  name: string
+  item?: string
+  start: number // Offset of '<'
+  end: number // Offset just past the closing '>'
+  contentStart: number
+  contentEnd: number
+  selfClosing: boolean
+  children: SourceElement[]
+}
+
+/** An attribute of a start tag, its value decoded */
+export interface XmlAttribute {
+  name: string
+  value: string
+}
+
+/** A start tag, end tag or run of character data, located by offsets */
+export type XmlToken =
+  | { type: 'open'; name: string; attributes: XmlAttribute[]; selfClosing: boolean; start: number; end: number }
+  | { type: 'close'; name: string; start: number; end: number }
+  | { type: 'text'; text: string; start: number; end: number } // Decoded; CDATA sections included verbatim
+
+/** Malformed XML, with the offset where scanning failed */
+export class XmlSyntaxError extends Error {
+  offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = 'XmlSyntaxError'
+    this.offset = offset
+  }
+}
+
+/**
+ * Read the tokens of an XML document one at a time, skipping comments,
+ * processing instructions and declarations. Nesting is not checked here.
+ */
+export function* tokenizeXml(text: string): Generator<XmlToken> {
+  let pos = 0
+
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos)
+    const textEnd = lt < 0 ? text.length : lt
+    if (textEnd > pos) {
+      yield { type: 'text', text: decodeText(text.slice(pos, textEnd), pos), start: pos, end: textEnd }
+    }
+    if (lt < 0) break
+
+    if (text.startsWith('<!--', lt)) {
+      pos = skipPast(text, '-->', lt)
+      continue
+    }
+    if (text.startsWith('<![CDATA[', lt)) {
+      pos = skipPast(text, ']]>', lt)
+      yield { type: 'text', text: normalizeNewlines(text.slice(lt + 9, pos - 3)), start: lt, end: pos }
+      continue
+    }
+    if (text.startsWith('<?', lt)) {
+      pos = skipPast(text, '?>', lt)
+      continue
+    }
+    if (text.startsWith('<!', lt)) {
+      pos = skipPast(text, '>', lt)
+      continue
+    }
+
+    const gt = findTagEnd(text, lt)
+    pos = gt + 1
+
+    if (text[lt + 1] === '/') {
+      yield { type: 'close', name: text.slice(lt + 2, gt).trim(), start: lt, end: gt + 1 }
+      continue
+    }
+
+    const selfClosing = text[gt - 1] === '/'
+    const tag = text.slice(lt + 1, selfClosing ? gt - 1 : gt)
+    const name = tag.match(/^[^\s/>]+/)?.[0]
+    if (!name) throw new XmlSyntaxError('Missing element name', lt)
+
+    yield {
+      type: 'open',
+      name,
+      attributes: readAttributes(tag.slice(name.length), lt),
+      selfClosing,
+      start: lt,
+      end: gt + 1,
+    }
+  }
+}
+
+/**
+ * Locate the elements of an XML document
+ */
+export function scanXml(text: string): SourceElement[] {
+  const roots: SourceElement[] = []
+  const stack: SourceElement[] = []
+
+  for (const token of tokenizeXml(text)) {
+    if (token.type === 'close') {
+      const open = stack.pop()
+      if (!open || open.name !== token.name) {
+        throw new XmlSyntaxError(`Unexpected </${token.name}>`, token.start)
+      }
+      open.contentEnd = token.start
+      open.end = token.end
+      continue
+    }
+    if (token.type !== 'open') continue
+
+    const element: SourceElement = {
+      name: token.name,
+      item: token.attributes.find((attr) => attr.name === 'item')?.value,
+      start: token.start,
+      end: token.end,
+      contentStart: token.end,
+      contentEnd: token.end,
+      selfClosing: token.selfClosing,
+      children: [],
+    }
+
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.children.push(element)
+    } else {
+      roots.push(element)
+    }
+    if (!token.selfClosing) {
+      stack.push(element)
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlSyntaxError(`Unclosed <${stack[stack.length - 1].name}>`, stack[stack.length - 1].start)
+  }
+  return roots
+}
+
+function skipPast(text: string, terminator: string, from: number): number {
+  const index = text.indexOf(terminator, from)
+  if (index < 0) throw new XmlSyntaxError('Unterminated markup', from)
+  return index + terminator.length
+}
+
+/**
+ * Find the '>' closing a tag, ignoring any inside quoted attribute values
+ */
+function findTagEnd(text: string, from: number): number {
+  let quote: string | null = null
+  for (let i = from + 1; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '>') {
+      return i
+    }
+  }
+  throw new XmlSyntaxError('Unterminated tag', from)
+}
+
+/**
+ * Read the attributes following the element name in a start tag.
+ * `offset` locates the tag for error reporting.
+ */
+function readAttributes(source: string, offset: number): XmlAttribute[] {
+  const attributes: XmlAttribute[] = []
+  const pattern = /\s+([^\s=/>]+)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/y
+
+  let pos = 0
+  while (pos < source.length) {
+    pattern.lastIndex = pos
+    const match = pattern.exec(source)
+    if (!match) {
+      if (/^\s*$/.test(source.slice(pos))) break
+      throw new XmlSyntaxError('Malformed attribute', offset)
+    }
+    const name = match[1]
+    if (attributes.some((attr) => attr.name === name)) {
+      throw new XmlSyntaxError(`Duplicate attribute ${name}`, offset)
+    }
+    // Whitespace in values is normalized to spaces, as XML requires
+    const value = (match[2] ?? match[3]).replace(/\r\n|[\t\n\r]/g, ' ')
+    attributes.push({ name, value: decodeText(value, offset) })
+    pos = pattern.lastIndex
+  }
+  return attributes
+}
+
+/**
+ * Decode character data, rejecting '&' that doesn't start a known entity
+ */
+function decodeText(value: string, offset: number): string {
+  const stray = value.search(/&(?!(?:lt|gt|amp|quot|apos|#\d+|#x[0-9a-f]+);)/i)
+  if (stray >= 0) throw new XmlSyntaxError('Undefined entity', offset + stray)
+  return decodeXml(normalizeNewlines(value), offset)
+}
+
+function normalizeNewlines(value: string): string {
+  return value.replace(/\r\n?/g, '\n')
+}
+
+/**
+ * Build a lookup from offset to 1-based line number
+ */
+export function createLineIndex(text: string): (offset: number) => number {
+  const lineStarts = [0]
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1)
+  }
+
+  return (offset) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return low + 1
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }
+
+/**
+ * Decode character and entity references in one pass, so the text a
+ * reference decodes to is never read as another reference. `offset` is
+ * where the value starts in the source, for reporting a bad reference.
+ */
+export function decodeXml(value: string, offset = 0): string {
+  return value.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(lt|gt|quot|apos|amp));/gi,
+    (match, hex: string | undefined, dec: string | undefined, name: string, at: number) => {
+      if (hex || dec) {
+        const codePoint = hex ? parseInt(hex, 16) : parseInt(dec!, 10)
+        if (codePoint > 0x10ffff) throw new XmlSyntaxError(`Character reference ${match} is out of range`, offset + at)
+        return String.fromCodePoint(codePoint)
+      }
+      return NAMED_ENTITIES[name] ?? match
+    }
+  )
+}
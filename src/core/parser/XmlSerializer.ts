@@ -5,8 +5,41 @@
  */
 
 import type { Point, Size, RGB } from '@/models/base/Primitives'
-import type { ScreenPiece } from '@/models/elements/ScreenPiece'
-import type { Screen } from '@/models/elements/Controls'
+import type { ScreenPiece, RawElement, RawProperty } from '@/models/elements/ScreenPiece'
+import type {
+  Screen,
+  Button,
+  Gauge,
+  Label,
+  Editbox,
+  Slider,
+  TabBox,
+  STMLbox,
+  Combobox,
+  InvSlot,
+  SpellGem,
+  HotButton,
+  StaticAnimation,
+  TileLayoutBox,
+  LayoutBox,
+  Page,
+  Grid,
+  StaticFrame,
+} from '@/models/elements/Controls'
+import type {
+  TextureInfo,
+  Ui2DAnimation,
+  Frame,
+  FrameTemplate,
+  ButtonDrawTemplate,
+  GaugeDrawTemplate,
+  SliderDrawTemplate,
+  ScrollbarDrawTemplate,
+  SpellGemDrawTemplate,
+  WindowDrawTemplate,
+  TemplateLibrary,
+} from '@/models/elements/Templates'
+import { createTemplateLibrary } from '@/models/elements/Templates'
 import type { UIFile } from '@/models/project/Project'
 
 /**
@@ -19,9 +52,16 @@ export function serializeUIFile(file: UIFile): string {
   lines.push('<XML>')
   lines.push('')
 
-  // Serialize each screen
+  // Template definitions come first so screens can reference them
+  serializeTemplateLibrary(file.templates, lines, 1)
+
+  // Serialize each screen; top-level controls keep their own element type
   for (const screen of file.screens) {
-    serializeScreen(screen, lines, 1)
+    if (screen.type === 'Screen') {
+      serializeScreen(screen, lines, 1)
+    } else {
+      serializeScreenPiece(screen, lines, 1)
+    }
     lines.push('')
   }
 
@@ -30,144 +70,696 @@ export function serializeUIFile(file: UIFile): string {
   return lines.join('\n')
 }
 
+/**
+ * Serialize an EQUI.xml manifest that includes the given files in order
+ */
+export function serializeManifest(includes: string[]): string {
+  const lines: string[] = []
+
+  lines.push('<?xml version="1.0" encoding="us-ascii"?>')
+  lines.push('<XML ID="EQInterfaceDefinitionLanguage">')
+  lines.push('  <Composite>')
+  for (const include of includes) {
+    serializeProperty(lines, 2, 'Include', include)
+  }
+  lines.push('  </Composite>')
+  lines.push('  <Schema xmlns="EverQuestData" xmlns:dt="EverQuestDataTypes" />')
+  lines.push('</XML>')
+
+  return lines.join('\n')
+}
+
+/**
+ * Serialize the template definitions declared in a file, grouped by kind
+ * in dependency order (textures, animations, then the draw templates)
+ */
+function serializeTemplateLibrary(templates: TemplateLibrary, lines: string[], indent: number): void {
+  serializeDefinitions(lines, indent, 'TextureInfo', templates.textures, serializeTextureInfoProperties)
+  serializeDefinitions(lines, indent, 'Ui2DAnimation', templates.animations, serializeAnimationProperties)
+  serializeDefinitions(lines, indent, 'FrameTemplate', templates.frameTemplates, serializeFrameTemplateProperties)
+  serializeDefinitions(lines, indent, 'ButtonDrawTemplate', templates.buttonTemplates, serializeButtonTemplateProperties)
+  serializeDefinitions(lines, indent, 'GaugeDrawTemplate', templates.gaugeTemplates, serializeGaugeTemplateProperties)
+  serializeDefinitions(lines, indent, 'SliderDrawTemplate', templates.sliderTemplates, serializeSliderTemplateProperties)
+  serializeDefinitions(
+    lines,
+    indent,
+    'ScrollbarDrawTemplate',
+    templates.scrollbarTemplates,
+    serializeScrollbarTemplateProperties
+  )
+  serializeDefinitions(
+    lines,
+    indent,
+    'SpellGemDrawTemplate',
+    templates.spellGemTemplates,
+    serializeSpellGemTemplateProperties
+  )
+  serializeDefinitions(lines, indent, 'WindowDrawTemplate', templates.windowTemplates, serializeWindowTemplateProperties)
+}
+
+/**
+ * Serialize each named definition of one template kind
+ */
+function serializeDefinitions<T extends { item: string }>(
+  lines: string[],
+  indent: number,
+  tag: string,
+  definitions: Map<string, T>,
+  serializeInline: (lines: string[], indent: number, template: T) => void
+): void {
+  const ind = '  '.repeat(indent)
+  for (const template of definitions.values()) {
+    lines.push(`${ind}<${tag}${serializeItemAttribute(template.item)}>`)
+    serializeInline(lines, indent + 1, template)
+    lines.push(`${ind}</${tag}>`)
+    lines.push('')
+  }
+}
+
 /**
  * Serialize a Screen element
  */
 function serializeScreen(screen: Screen, lines: string[], indent: number): void {
   const ind = '  '.repeat(indent)
 
-  lines.push(`${ind}<Screen${screen.item ? ` item="${screen.item}"` : ''}>`)
+  lines.push(`${ind}<Screen${serializeItemAttribute(screen.item)}>`)
 
-  // Core properties
-  serializeProperty(lines, indent + 1, 'ScreenID', screen.screenId)
-  serializePoint(lines, indent + 1, 'Location', screen.location)
-  serializeSize(lines, indent + 1, 'Size', screen.size)
+  const properties: string[] = []
+  serializeCommonProperties(screen, properties, indent + 1)
 
-  // Positioning
-  if (screen.relativePosition) {
-    serializeProperty(lines, indent + 1, 'RelativePosition', 'true')
-  }
-  if (screen.autoStretch) {
-    serializeProperty(lines, indent + 1, 'AutoStretch', 'true')
+  if (screen.windowDrawTemplate) {
+    serializeProperty(properties, indent + 1, 'WindowDrawTemplate', screen.windowDrawTemplate)
   }
+  lines.push(...insertRawProperties(properties, indent + 1, screen.rawProperties))
 
-  // Anchoring (only serialize non-default values)
-  if (!screen.topAnchorToTop) {
-    serializeProperty(lines, indent + 1, 'TopAnchorToTop', 'false')
-  }
-  if (screen.bottomAnchorToTop) {
-    serializeProperty(lines, indent + 1, 'BottomAnchorToTop', 'true')
-  }
-  if (!screen.leftAnchorToLeft) {
-    serializeProperty(lines, indent + 1, 'LeftAnchorToLeft', 'false')
-  }
-  if (screen.rightAnchorToLeft) {
-    serializeProperty(lines, indent + 1, 'RightAnchorToLeft', 'true')
-  }
+  serializeChildren(screen, lines, indent + 1)
 
-  // Offsets (only if non-zero)
-  if (screen.topAnchorOffset) {
-    serializeProperty(lines, indent + 1, 'TopOffset', screen.topAnchorOffset)
-  }
-  if (screen.bottomAnchorOffset) {
-    serializeProperty(lines, indent + 1, 'BottomOffset', screen.bottomAnchorOffset)
-  }
-  if (screen.leftAnchorOffset) {
-    serializeProperty(lines, indent + 1, 'LeftOffset', screen.leftAnchorOffset)
-  }
-  if (screen.rightAnchorOffset) {
-    serializeProperty(lines, indent + 1, 'RightOffset', screen.rightAnchorOffset)
-  }
+  lines.push(`${ind}</Screen>`)
+}
 
-  // Appearance
-  if (screen.textColor) {
-    serializeRGB(lines, indent + 1, 'TextColor', screen.textColor)
-  }
-  if (screen.font) {
-    serializeProperty(lines, indent + 1, 'Font', screen.font)
+/**
+ * Serialize a ScreenPiece element
+ */
+function serializeScreenPiece(piece: ScreenPiece, lines: string[], indent: number): void {
+  const ind = '  '.repeat(indent)
+
+  lines.push(`${ind}<${piece.type}${serializeItemAttribute(piece.item)}>`)
+
+  const properties: string[] = []
+  serializeCommonProperties(piece, properties, indent + 1)
+
+  // Control-specific properties
+  serializeControlProperties(piece, properties, indent + 1)
+  lines.push(...insertRawProperties(properties, indent + 1, piece.rawProperties))
+
+  serializeChildren(piece, lines, indent + 1)
+
+  lines.push(`${ind}</${piece.type}>`)
+}
+
+/**
+ * Serialize children. Children instantiated from a shared definition are
+ * written back as <Pieces>/<Pages> references rather than inline copies.
+ */
+function serializeChildren(piece: ScreenPiece, lines: string[], indent: number): void {
+  // References that found no definition go back where they were among the children
+  const unresolved = [...(piece.unresolvedReferences || [])]
+  const writeUnresolved = (upTo: number) => {
+    while (unresolved.length > 0 && (unresolved[0].index ?? Infinity) <= upTo) {
+      const ref = unresolved.shift()!
+      serializeProperty(lines, indent, ref.tag, ref.text)
+    }
   }
-  if (screen.text) {
-    serializeProperty(lines, indent + 1, 'Text', screen.text)
+
+  piece.children.forEach((child, index) => {
+    writeUnresolved(index)
+    if (child.reference) {
+      serializeProperty(lines, indent, child.reference.tag, child.reference.text)
+    } else {
+      lines.push('')
+      serializeScreenPiece(child, lines, indent)
+    }
+  })
+  writeUnresolved(Infinity)
+}
+
+/**
+ * Merge unmodeled properties into the serialized ones, each after the
+ * property it followed in the source
+ */
+function insertRawProperties(lines: string[], indent: number, rawProperties: RawProperty[] | undefined): string[] {
+  if (!rawProperties?.length) return lines
+
+  // Split the lines into one block per property
+  const ind = '  '.repeat(indent)
+  const blocks: { name: string; lines: string[] }[] = []
+  for (const line of lines) {
+    const open = line.startsWith(ind + '<') && !line.startsWith(ind + '</')
+      ? line.slice(ind.length).match(/^<([^\s/>]+)/)
+      : null
+    if (open) {
+      blocks.push({ name: open[1], lines: [line] })
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line)
+    }
   }
-  if (screen.tooltip) {
-    serializeProperty(lines, indent + 1, 'TooltipReference', screen.tooltip)
+
+  // Raw properties keep their relative order and follow the nearest property
+  // before them in the source that was written, or the raw property before
+  let next = 0
+  for (const raw of rawProperties) {
+    const block = { name: raw.name, lines: [] as string[] }
+    serializeRawElement(block.lines, indent, raw)
+
+    let index = raw.after === undefined ? blocks.length : next
+    const written = raw.after ? findWrittenPredecessor(blocks, [raw.after, ...(raw.earlier ?? [])]) : -1
+    if (written >= 0) index = Math.max(written + 1, next)
+    blocks.splice(index, 0, block)
+    next = index + 1
   }
 
-  // Style flags
-  serializeStyleFlags(lines, indent + 1, screen.style)
+  return blocks.flatMap((block) => block.lines)
+}
 
-  // Templates
-  if (screen.drawTemplate) {
-    serializeProperty(lines, indent + 1, 'DrawTemplate', screen.drawTemplate)
-  }
-  if (screen.windowDrawTemplate) {
-    serializeProperty(lines, indent + 1, 'WindowDrawTemplate', screen.windowDrawTemplate)
+/**
+ * Index of the block for the first of `names` that was written, or -1
+ */
+function findWrittenPredecessor(blocks: { name: string }[], names: string[]): number {
+  for (const name of names) {
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      if (blocks[i].name === name) return i
+    }
   }
+  return -1
+}
 
-  // Children
-  for (const child of screen.children) {
-    lines.push('')
-    serializeScreenPiece(child, lines, indent + 1)
+/**
+ * Serialize an element kept verbatim
+ */
+function serializeRawElement(lines: string[], indent: number, element: RawElement): void {
+  const ind = '  '.repeat(indent)
+  const attributes = Object.entries(element.attributes ?? {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('')
+
+  if (element.children?.length) {
+    lines.push(`${ind}<${element.name}${attributes}>`)
+    for (const child of element.children) {
+      serializeRawElement(lines, indent + 1, child)
+    }
+    lines.push(`${ind}</${element.name}>`)
+  } else if (element.text) {
+    lines.push(`${ind}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>`)
+  } else {
+    lines.push(`${ind}<${element.name}${attributes} />`)
   }
+}
 
-  lines.push(`${ind}</Screen>`)
+/**
+ * Serialize one piece, with its children, to an XML string
+ */
+export function serializePieceXml(piece: ScreenPiece): string {
+  const lines: string[] = []
+  if (piece.type === 'Screen') {
+    serializeScreen(piece as Screen, lines, 0)
+  } else {
+    serializeScreenPiece(piece, lines, 0)
+  }
+  return lines.filter((line) => line !== '').join('\n')
 }
 
 /**
- * Serialize a ScreenPiece element
+ * Serialize one library definition to an XML string
  */
-function serializeScreenPiece(piece: ScreenPiece, lines: string[], indent: number): void {
-  const ind = '  '.repeat(indent)
+export function serializeDefinitionXml(kind: keyof TemplateLibrary, definition: { item: string }): string {
+  const templates = createTemplateLibrary()
+  const library = templates[kind] as Map<string, unknown>
+  library.set(definition.item, definition)
+  const lines: string[] = []
+  serializeTemplateLibrary(templates, lines, 0)
+  return lines.filter((line) => line !== '').join('\n')
+}
 
-  lines.push(`${ind}<${piece.type}${piece.item ? ` item="${piece.item}"` : ''}>`)
+/**
+ * Serialize a raw element to an XML string
+ */
+export function serializeRawXml(element: RawElement): string {
+  const lines: string[] = []
+  serializeRawElement(lines, 0, element)
+  return lines.join('\n')
+}
 
+/**
+ * Serialize the properties shared by every ScreenPiece
+ */
+function serializeCommonProperties(piece: ScreenPiece, lines: string[], indent: number): void {
   // Core properties
-  serializeProperty(lines, indent + 1, 'ScreenID', piece.screenId)
-  serializePoint(lines, indent + 1, 'Location', piece.location)
-  serializeSize(lines, indent + 1, 'Size', piece.size)
+  serializeProperty(lines, indent, 'ScreenID', piece.screenId)
+  serializePoint(lines, indent, 'Location', piece.location)
+  serializeSize(lines, indent, 'Size', piece.size)
 
   // Positioning (only non-defaults)
   if (piece.relativePosition) {
-    serializeProperty(lines, indent + 1, 'RelativePosition', 'true')
+    serializeProperty(lines, indent, 'RelativePosition', 'true')
   }
   if (piece.autoStretch) {
-    serializeProperty(lines, indent + 1, 'AutoStretch', 'true')
+    serializeProperty(lines, indent, 'AutoStretch', 'true')
+  }
+
+  // Anchoring (only serialize non-default values)
+  if (!piece.topAnchorToTop) {
+    serializeProperty(lines, indent, 'TopAnchorToTop', 'false')
+  }
+  if (piece.bottomAnchorToTop) {
+    serializeProperty(lines, indent, 'BottomAnchorToTop', 'true')
+  }
+  if (!piece.leftAnchorToLeft) {
+    serializeProperty(lines, indent, 'LeftAnchorToLeft', 'false')
+  }
+  if (piece.rightAnchorToLeft) {
+    serializeProperty(lines, indent, 'RightAnchorToLeft', 'true')
+  }
+
+  // Offsets (only if non-zero)
+  if (piece.topAnchorOffset) {
+    serializeProperty(lines, indent, 'TopAnchorOffset', piece.topAnchorOffset)
+  }
+  if (piece.bottomAnchorOffset) {
+    serializeProperty(lines, indent, 'BottomAnchorOffset', piece.bottomAnchorOffset)
+  }
+  if (piece.leftAnchorOffset) {
+    serializeProperty(lines, indent, 'LeftAnchorOffset', piece.leftAnchorOffset)
+  }
+  if (piece.rightAnchorOffset) {
+    serializeProperty(lines, indent, 'RightAnchorOffset', piece.rightAnchorOffset)
   }
 
   // Appearance
   if (piece.textColor) {
-    serializeRGB(lines, indent + 1, 'TextColor', piece.textColor)
+    serializeRGB(lines, indent, 'TextColor', piece.textColor)
   }
   if (piece.font) {
-    serializeProperty(lines, indent + 1, 'Font', piece.font)
+    serializeProperty(lines, indent, 'Font', piece.font)
   }
   if (piece.text) {
-    serializeProperty(lines, indent + 1, 'Text', piece.text)
+    serializeProperty(lines, indent, 'Text', piece.text)
   }
   if (piece.tooltip) {
-    serializeProperty(lines, indent + 1, 'TooltipReference', piece.tooltip)
+    serializeProperty(lines, indent, 'TooltipReference', piece.tooltip)
   }
 
   // Style flags
-  serializeStyleFlags(lines, indent + 1, piece.style)
+  serializeStyleFlags(lines, indent, piece.style)
 
   // Templates
   if (piece.drawTemplate) {
-    serializeProperty(lines, indent + 1, 'DrawTemplate', piece.drawTemplate)
+    serializeProperty(lines, indent, 'DrawTemplate', piece.drawTemplate)
   }
+}
 
-  // Control-specific properties
-  if ('eqType' in piece && piece.eqType) {
-    serializeProperty(lines, indent + 1, 'EQType', piece.eqType)
+/**
+ * Serialize the control-specific properties read by the parser.
+ * Values equal to the parser's defaults are omitted.
+ */
+function serializeControlProperties(piece: ScreenPiece, lines: string[], indent: number): void {
+  const anyPiece = piece as unknown as Record<string, unknown>
+
+  if (anyPiece.eqType !== undefined && anyPiece.eqType !== '') {
+    serializeProperty(lines, indent, 'EQType', anyPiece.eqType as string | number)
   }
 
-  // Children
-  for (const child of piece.children) {
-    lines.push('')
-    serializeScreenPiece(child, lines, indent + 1)
+  switch (piece.type) {
+    case 'Gauge': {
+      const gauge = piece as Gauge
+      serializeTemplateProperty(lines, indent, 'GaugeDrawTemplate', gauge.gaugeDrawTemplate, serializeGaugeTemplateProperties)
+      if (gauge.fillTint) serializeRGB(lines, indent, 'FillTint', gauge.fillTint)
+      if (gauge.linesFillTint) serializeRGB(lines, indent, 'LinesFillTint', gauge.linesFillTint)
+      if (gauge.orientation && gauge.orientation !== 'horizontal') {
+        serializeProperty(lines, indent, 'Orientation', gauge.orientation)
+      }
+      break
+    }
+
+    case 'Button': {
+      const button = piece as Button
+      serializeTemplateProperty(lines, indent, 'ButtonDrawTemplate', button.buttonDrawTemplate, serializeButtonTemplateProperties)
+      serializeOptional(lines, indent, 'NormalTexture', button.normalTexture)
+      serializeOptional(lines, indent, 'PressedTexture', button.pressedTexture)
+      serializeOptional(lines, indent, 'FlybyTexture', button.flybyTexture)
+      serializeOptional(lines, indent, 'DisabledTexture', button.disabledTexture)
+      if (button.decalOffset) serializePoint(lines, indent, 'DecalOffset', button.decalOffset, false)
+      if (button.decalSize) serializeSize(lines, indent, 'DecalSize', button.decalSize, false)
+      if (button.isCheckbox) serializeProperty(lines, indent, 'Checkbox', 'true')
+      if (button.checked) serializeProperty(lines, indent, 'Checked', 'true')
+      serializeOptional(lines, indent, 'RadioGroup', button.radioGroup)
+      break
+    }
+
+    case 'Label': {
+      const label = piece as Label
+      if (label.noWrap) serializeProperty(lines, indent, 'NoWrap', 'true')
+      if (label.alignCenter) serializeProperty(lines, indent, 'AlignCenter', 'true')
+      if (label.alignRight) serializeProperty(lines, indent, 'AlignRight', 'true')
+      break
+    }
+
+    case 'Editbox': {
+      const editbox = piece as Editbox
+      if (editbox.maxChars) serializeProperty(lines, indent, 'MaxChars', editbox.maxChars)
+      if (editbox.password) serializeProperty(lines, indent, 'Password', 'true')
+      if (editbox.multiline) serializeProperty(lines, indent, 'Multiline', 'true')
+      if (editbox.autoVScroll) serializeProperty(lines, indent, 'AutoVScroll', 'true')
+      break
+    }
+
+    case 'InvSlot': {
+      const invSlot = piece as InvSlot
+      if (invSlot.invSlot) serializeProperty(lines, indent, 'InvSlot', invSlot.invSlot)
+      if (invSlot.bagSlot) serializeProperty(lines, indent, 'BagSlot', invSlot.bagSlot)
+      break
+    }
+
+    case 'SpellGem': {
+      const spellGem = piece as SpellGem
+      if (spellGem.spellSlot) serializeProperty(lines, indent, 'SpellSlot', spellGem.spellSlot)
+      serializeTemplateProperty(
+        lines,
+        indent,
+        'SpellGemDrawTemplate',
+        spellGem.spellGemDrawTemplate,
+        serializeSpellGemTemplateProperties
+      )
+      break
+    }
+
+    case 'HotButton': {
+      const hotButton = piece as HotButton
+      if (hotButton.buttonIndex) serializeProperty(lines, indent, 'ButtonIndex', hotButton.buttonIndex)
+      break
+    }
+
+    case 'StaticAnimation':
+      serializeOptional(lines, indent, 'Animation', (piece as StaticAnimation).animation)
+      break
+
+    case 'TileLayoutBox': {
+      const box = piece as TileLayoutBox
+      if (box.spacing) serializeProperty(lines, indent, 'Spacing', box.spacing)
+      if (box.secondarySpacing) serializeProperty(lines, indent, 'SecondarySpacing', box.secondarySpacing)
+      if (box.horizontalFirst) serializeProperty(lines, indent, 'HorizontalFirst', 'true')
+      if (box.anchorToTop) serializeProperty(lines, indent, 'AnchorToTop', 'true')
+      if (box.anchorToLeft) serializeProperty(lines, indent, 'AnchorToLeft', 'true')
+      if (box.firstPieceTemplate) serializeProperty(lines, indent, 'FirstPieceTemplate', 'true')
+      if (box.snapToChildren) serializeProperty(lines, indent, 'SnapToChildren', 'true')
+      break
+    }
+
+    case 'LayoutBox':
+    case 'VerticalLayoutBox':
+    case 'HorizontalLayoutBox': {
+      const box = piece as LayoutBox
+      if (box.spacing) serializeProperty(lines, indent, 'Spacing', box.spacing)
+      if (box.autoStretchHorizontal) serializeProperty(lines, indent, 'AutoStretchHorizontal', 'true')
+      if (box.autoStretchVertical) serializeProperty(lines, indent, 'AutoStretchVertical', 'true')
+      break
+    }
+
+    case 'Page':
+      serializeOptional(lines, indent, 'TabText', (piece as Page).tabText)
+      break
+
+    case 'Slider': {
+      const slider = piece as Slider
+      serializeTemplateProperty(
+        lines,
+        indent,
+        'SliderDrawTemplate',
+        slider.sliderDrawTemplate,
+        serializeSliderTemplateProperties
+      )
+      serializeOptional(lines, indent, 'SliderArt', slider.sliderArt)
+      if (slider.orientation && slider.orientation !== 'horizontal') {
+        serializeProperty(lines, indent, 'Orientation', slider.orientation)
+      }
+      if (slider.minValue) serializeProperty(lines, indent, 'MinValue', slider.minValue)
+      if (slider.maxValue !== undefined && slider.maxValue !== 100) {
+        serializeProperty(lines, indent, 'MaxValue', slider.maxValue)
+      }
+      if (slider.currentValue) serializeProperty(lines, indent, 'CurrentValue', slider.currentValue)
+      if (slider.pageSize !== undefined && slider.pageSize !== 10) {
+        serializeProperty(lines, indent, 'PageSize', slider.pageSize)
+      }
+      break
+    }
+
+    case 'StaticFrame':
+      serializeOptional(lines, indent, 'FrameTemplate', (piece as StaticFrame).frameTemplate)
+      break
+
+    case 'Grid': {
+      const grid = piece as Grid
+      if (grid.rows !== undefined && grid.rows !== 1) serializeProperty(lines, indent, 'Rows', grid.rows)
+      if (grid.cols !== undefined && grid.cols !== 1) serializeProperty(lines, indent, 'Cols', grid.cols)
+      if (grid.cellWidth) serializeProperty(lines, indent, 'CellWidth', grid.cellWidth)
+      if (grid.cellHeight) serializeProperty(lines, indent, 'CellHeight', grid.cellHeight)
+      break
+    }
+
+    case 'Listbox': {
+      const ind = '  '.repeat(indent)
+      if (anyPiece.headerStyle) serializeProperty(lines, indent, 'HeaderStyle', 'true')
+      if (anyPiece.sort) serializeProperty(lines, indent, 'Sort', 'true')
+      if (anyPiece.highlightColor) serializeRGB(lines, indent, 'HighlightColor', anyPiece.highlightColor as RGB)
+      piece.columns?.forEach((width, index) => {
+        lines.push(`${ind}<Columns>`)
+        serializeProperty(lines, indent + 1, 'Width', width)
+        serializeOptional(lines, indent + 1, 'Heading', piece.columnHeadings?.[index])
+        lines.push(`${ind}</Columns>`)
+      })
+      break
+    }
+
+    case 'TabBox': {
+      const tabBox = piece as TabBox
+      if (tabBox.tabHeight !== undefined && tabBox.tabHeight !== 20) {
+        serializeProperty(lines, indent, 'TabHeight', tabBox.tabHeight)
+      }
+      break
+    }
+
+    case 'STMLbox': {
+      const stml = piece as STMLbox
+      if (stml.maxLines) serializeProperty(lines, indent, 'MaxLines', stml.maxLines)
+      break
+    }
+
+    case 'Combobox':
+      for (const choice of (piece as Combobox).choices || []) {
+        serializeProperty(lines, indent, 'Choices', choice)
+      }
+      break
   }
+}
 
-  lines.push(`${ind}</${piece.type}>`)
+/**
+ * Serialize a template property either inline or as a named reference
+ */
+function serializeTemplateProperty<T>(
+  lines: string[],
+  indent: number,
+  name: string,
+  template: T | string | undefined,
+  serializeInline: (lines: string[], indent: number, template: T) => void
+): void {
+  if (!template) return
+  if (typeof template === 'string') {
+    serializeProperty(lines, indent, name, template)
+    return
+  }
+
+  const ind = '  '.repeat(indent)
+  lines.push(`${ind}<${name}>`)
+  serializeInline(lines, indent + 1, template)
+  lines.push(`${ind}</${name}>`)
+}
+
+/**
+ * Serialize the state animations of a ButtonDrawTemplate
+ */
+function serializeButtonTemplateProperties(
+  lines: string[],
+  indent: number,
+  template: ButtonDrawTemplate
+): void {
+  serializeOptional(lines, indent, 'Normal', template.normal)
+  serializeOptional(lines, indent, 'Pressed', template.pressed)
+  serializeOptional(lines, indent, 'Flyby', template.flyby)
+  serializeOptional(lines, indent, 'Disabled', template.disabled)
+  serializeOptional(lines, indent, 'PressedFlyby', template.pressedFlyby)
+  serializeOptional(lines, indent, 'PressedDisabled', template.pressedDisabled)
+  serializeOptional(lines, indent, 'NormalDecal', template.normalDecal)
+  serializeOptional(lines, indent, 'PressedDecal', template.pressedDecal)
+  serializeOptional(lines, indent, 'FlybyDecal', template.flybyDecal)
+  serializeOptional(lines, indent, 'DisabledDecal', template.disabledDecal)
+  serializeOptional(lines, indent, 'PressedFlybyDecal', template.pressedFlybyDecal)
+  serializeOptional(lines, indent, 'PressedDisabledDecal', template.pressedDisabledDecal)
+}
+
+/**
+ * Serialize the component animations of a GaugeDrawTemplate
+ */
+function serializeGaugeTemplateProperties(
+  lines: string[],
+  indent: number,
+  template: GaugeDrawTemplate
+): void {
+  serializeOptional(lines, indent, 'Background', template.background)
+  serializeOptional(lines, indent, 'Fill', template.fill)
+  serializeOptional(lines, indent, 'Lines', template.lines)
+  serializeOptional(lines, indent, 'LinesFill', template.linesFill)
+  serializeOptional(lines, indent, 'EndCapLeft', template.endCapLeft)
+  serializeOptional(lines, indent, 'EndCapRight', template.endCapRight)
+}
+
+/**
+ * Serialize a TextureInfo definition
+ */
+function serializeTextureInfoProperties(lines: string[], indent: number, texture: TextureInfo): void {
+  // The parser falls back to the item name when Filename is absent
+  if (texture.filename !== texture.item) {
+    serializeProperty(lines, indent, 'Filename', texture.filename)
+  }
+  serializeSize(lines, indent, 'Size', texture.size, false)
+}
+
+/**
+ * Serialize a Ui2DAnimation definition and its frames
+ */
+function serializeAnimationProperties(lines: string[], indent: number, animation: Ui2DAnimation): void {
+  if (animation.cycle) serializeProperty(lines, indent, 'Cycle', 'true')
+  if (animation.grid) serializeProperty(lines, indent, 'Grid', 'true')
+  if (animation.vertical) serializeProperty(lines, indent, 'Vertical', 'true')
+  if (animation.rows !== undefined && animation.rows !== 1) {
+    serializeProperty(lines, indent, 'Rows', animation.rows)
+  }
+  if (animation.cols !== undefined && animation.cols !== 1) {
+    serializeProperty(lines, indent, 'Cols', animation.cols)
+  }
+  if (animation.cellWidth) serializeProperty(lines, indent, 'CellWidth', animation.cellWidth)
+  if (animation.cellHeight) serializeProperty(lines, indent, 'CellHeight', animation.cellHeight)
+
+  const ind = '  '.repeat(indent)
+  for (const frame of animation.frames) {
+    lines.push(`${ind}<Frames>`)
+    serializeFrame(lines, indent + 1, frame)
+    lines.push(`${ind}</Frames>`)
+  }
+}
+
+/**
+ * Serialize a single animation frame
+ */
+function serializeFrame(lines: string[], indent: number, frame: Frame): void {
+  serializeOptional(lines, indent, 'Texture', frame.texture)
+  serializePoint(lines, indent, 'Location', frame.location)
+  serializeSize(lines, indent, 'Size', frame.size)
+  if (frame.hotspot) serializePoint(lines, indent, 'Hotspot', frame.hotspot)
+  if (frame.duration) serializeProperty(lines, indent, 'Duration', frame.duration)
+}
+
+/**
+ * Serialize the regions and overlaps of a FrameTemplate
+ */
+function serializeFrameTemplateProperties(lines: string[], indent: number, template: FrameTemplate): void {
+  serializeOptional(lines, indent, 'TopLeft', template.topLeft)
+  serializeOptional(lines, indent, 'Top', template.top)
+  serializeOptional(lines, indent, 'TopRight', template.topRight)
+  serializeOptional(lines, indent, 'LeftTop', template.leftTop)
+  serializeOptional(lines, indent, 'Left', template.left)
+  serializeOptional(lines, indent, 'LeftBottom', template.leftBottom)
+  serializeOptional(lines, indent, 'BottomLeft', template.bottomLeft)
+  serializeOptional(lines, indent, 'Bottom', template.bottom)
+  serializeOptional(lines, indent, 'BottomRight', template.bottomRight)
+  serializeOptional(lines, indent, 'RightTop', template.rightTop)
+  serializeOptional(lines, indent, 'Right', template.right)
+  serializeOptional(lines, indent, 'RightBottom', template.rightBottom)
+  serializeOptional(lines, indent, 'Middle', template.middle)
+  serializeOptional(lines, indent, 'TopLeftOverlapX', template.topLeftOverlapX)
+  serializeOptional(lines, indent, 'TopLeftOverlapY', template.topLeftOverlapY)
+  serializeOptional(lines, indent, 'TopRightOverlapX', template.topRightOverlapX)
+  serializeOptional(lines, indent, 'TopRightOverlapY', template.topRightOverlapY)
+  serializeOptional(lines, indent, 'BottomLeftOverlapX', template.bottomLeftOverlapX)
+  serializeOptional(lines, indent, 'BottomLeftOverlapY', template.bottomLeftOverlapY)
+  serializeOptional(lines, indent, 'BottomRightOverlapX', template.bottomRightOverlapX)
+  serializeOptional(lines, indent, 'BottomRightOverlapY', template.bottomRightOverlapY)
+  serializeOptional(lines, indent, 'OverlapLeft', template.overlapLeft)
+  serializeOptional(lines, indent, 'OverlapTop', template.overlapTop)
+  serializeOptional(lines, indent, 'OverlapRight', template.overlapRight)
+  serializeOptional(lines, indent, 'OverlapBottom', template.overlapBottom)
+}
+
+/**
+ * Serialize the component animations of a SliderDrawTemplate
+ */
+function serializeSliderTemplateProperties(
+  lines: string[],
+  indent: number,
+  template: SliderDrawTemplate
+): void {
+  serializeTemplateProperty(lines, indent, 'Thumb', template.thumb, serializeButtonTemplateProperties)
+  serializeOptional(lines, indent, 'Background', template.background)
+  serializeOptional(lines, indent, 'EndCapRight', template.endCapRight)
+  serializeOptional(lines, indent, 'EndCapLeft', template.endCapLeft)
+}
+
+/**
+ * Serialize the parts of a ScrollbarDrawTemplate
+ */
+function serializeScrollbarTemplateProperties(
+  lines: string[],
+  indent: number,
+  template: ScrollbarDrawTemplate
+): void {
+  serializeOptional(lines, indent, 'Background', template.background)
+  serializeTemplateProperty(lines, indent, 'UpButton', template.upButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'DownButton', template.downButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'Thumb', template.thumb, serializeFrameTemplateProperties)
+  serializeOptional(lines, indent, 'MiddleTextureInfo', template.middleTextureInfo)
+  if (template.middleTint) serializeRGB(lines, indent, 'MiddleTint', template.middleTint)
+}
+
+/**
+ * Serialize the component animations of a SpellGemDrawTemplate
+ */
+function serializeSpellGemTemplateProperties(
+  lines: string[],
+  indent: number,
+  template: SpellGemDrawTemplate
+): void {
+  serializeOptional(lines, indent, 'Holder', template.holder)
+  serializeOptional(lines, indent, 'Background', template.background)
+  serializeOptional(lines, indent, 'Highlight', template.highlight)
+}
+
+/**
+ * Serialize the parts of a WindowDrawTemplate
+ */
+function serializeWindowTemplateProperties(
+  lines: string[],
+  indent: number,
+  template: WindowDrawTemplate
+): void {
+  serializeOptional(lines, indent, 'Background', template.background)
+  serializeTemplateProperty(lines, indent, 'CloseBox', template.closeButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'MinimizeBox', template.minimizeButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'TileBox', template.tileButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'QMarkBox', template.qmarkButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'MaximizeBox', template.maximizeButton, serializeButtonTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'Border', template.border, serializeFrameTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'Titlebar', template.titlebar, serializeFrameTemplateProperties)
+  if (template.titlebarHeight) serializeProperty(lines, indent, 'TitlebarHeight', template.titlebarHeight)
+  serializeTemplateProperty(lines, indent, 'VSBTemplate', template.verticalScrollbar, serializeScrollbarTemplateProperties)
+  serializeTemplateProperty(lines, indent, 'HSBTemplate', template.horizontalScrollbar, serializeScrollbarTemplateProperties)
 }
 
 // ============ Helper Functions ============
@@ -179,11 +771,33 @@ function serializeProperty(
   value: string | number | boolean
 ): void {
   const ind = '  '.repeat(indent)
-  lines.push(`${ind}<${name}>${value}</${name}>`)
+  lines.push(`${ind}<${name}>${escapeXml(String(value))}</${name}>`)
+}
+
+function serializeOptional(
+  lines: string[],
+  indent: number,
+  name: string,
+  value: string | number | undefined
+): void {
+  if (value === undefined || value === '') return
+  serializeProperty(lines, indent, name, value)
+}
+
+function serializeItemAttribute(item: string | undefined): string {
+  return item ? ` item="${escapeXml(item)}"` : ''
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
 }
 
-function serializePoint(lines: string[], indent: number, name: string, point: Point): void {
-  if (point.x === 0 && point.y === 0) return
+function serializePoint(lines: string[], indent: number, name: string, point: Point, omitZero = true): void {
+  if (omitZero && point.x === 0 && point.y === 0) return
 
   const ind = '  '.repeat(indent)
   lines.push(`${ind}<${name}>`)
@@ -192,8 +806,8 @@ function serializePoint(lines: string[], indent: number, name: string, point: Po
   lines.push(`${ind}</${name}>`)
 }
 
-function serializeSize(lines: string[], indent: number, name: string, size: Size): void {
-  if (size.cx === 0 && size.cy === 0) return
+function serializeSize(lines: string[], indent: number, name: string, size: Size, omitZero = true): void {
+  if (omitZero && size.cx === 0 && size.cy === 0) return
 
   const ind = '  '.repeat(indent)
   lines.push(`${ind}<${name}>`)
@@ -225,6 +839,7 @@ function serializeStyleFlags(
   if (style.tilebox) serializeProperty(lines, indent, 'Style_Tilebox', 'true')
   if (style.sizable) serializeProperty(lines, indent, 'Style_Sizable', 'true')
   if (style.escapeClose) serializeProperty(lines, indent, 'Style_EscapeClose', 'true')
+  if (style.checkbox) serializeProperty(lines, indent, 'Style_Checkbox', 'true')
   if (style.vScroll) serializeProperty(lines, indent, 'Style_VScroll', 'true')
   if (style.hScroll) serializeProperty(lines, indent, 'Style_HScroll', 'true')
 }
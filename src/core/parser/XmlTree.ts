@@ -0,0 +1,128 @@
+/**
+ * XML Tree
+ *
+ * Builds a light element tree from the tokenizer's output, in place of the
+ * browser's DOMParser, so the EQUI and SIDL parsers can run in a Web Worker
+ * or Node. Elements keep the line and column they start at.
+ */
+
+import { tokenizeXml, createLineIndex, XmlSyntaxError } from './XmlScanner'
+
+/** An element and everything inside it */
+export interface XmlElement {
+  tagName: string
+  attributes: Record<string, string>
+  children: XmlElement[] // Child elements only
+  content: (XmlElement | string)[] // Child elements and text, in document order
+  line: number // 1-based
+  column: number // 1-based
+}
+
+/**
+ * Parse an XML document into its root element.
+ * Throws XmlSyntaxError when the document is not well-formed.
+ */
+export function parseXml(text: string): XmlElement {
+  const lineOf = createLineIndex(text)
+  const stack: XmlElement[] = []
+  let root: XmlElement | undefined
+
+  for (const token of tokenizeXml(text)) {
+    const parent = stack[stack.length - 1]
+
+    switch (token.type) {
+      case 'text':
+        if (parent) {
+          parent.content.push(token.text)
+        } else if (token.text.trim()) {
+          throw new XmlSyntaxError('Text outside the root element', token.start)
+        }
+        break
+
+      case 'open': {
+        const element: XmlElement = {
+          tagName: token.name,
+          attributes: Object.fromEntries(token.attributes.map((attr) => [attr.name, attr.value])),
+          children: [],
+          content: [],
+          line: lineOf(token.start),
+          column: token.start - text.lastIndexOf('\n', token.start - 1),
+        }
+        if (parent) {
+          parent.children.push(element)
+          parent.content.push(element)
+        } else if (root) {
+          throw new XmlSyntaxError(`Unexpected <${token.name}> after the root element`, token.start)
+        } else {
+          root = element
+        }
+        if (!token.selfClosing) {
+          stack.push(element)
+        }
+        break
+      }
+
+      case 'close': {
+        const open = stack.pop()
+        if (!open || open.tagName !== token.name) {
+          throw new XmlSyntaxError(`Unexpected </${token.name}>`, token.start)
+        }
+        break
+      }
+    }
+  }
+
+  const unclosed = stack[stack.length - 1]
+  if (unclosed) {
+    throw new XmlSyntaxError(`Unclosed <${unclosed.tagName}>`, text.length)
+  }
+  if (!root) {
+    throw new XmlSyntaxError('No root element', 0)
+  }
+  return root
+}
+
+/**
+ * All text inside an element, that of its descendants included
+ */
+export function getTextContent(element: XmlElement): string {
+  return element.content.map((node) => (typeof node === 'string' ? node : getTextContent(node))).join('')
+}
+
+/**
+ * First child element with the given name
+ */
+export function findChild(parent: XmlElement, name: string): XmlElement | undefined {
+  return parent.children.find((child) => child.tagName === name)
+}
+
+/**
+ * Child elements with any of the given names, in document order
+ */
+export function findChildren(parent: XmlElement, ...names: string[]): XmlElement[] {
+  return parent.children.filter((child) => names.includes(child.tagName))
+}
+
+/**
+ * First element with the given name below `parent`, in document order
+ */
+export function findDescendant(parent: XmlElement, name: string): XmlElement | undefined {
+  for (const child of parent.children) {
+    if (child.tagName === name) return child
+    const found = findDescendant(child, name)
+    if (found) return found
+  }
+  return undefined
+}
+
+/**
+ * Every element with the given name below `parent`, in document order
+ */
+export function findDescendants(parent: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of parent.children) {
+    if (child.tagName === name) found.push(child)
+    found.push(...findDescendants(child, name))
+  }
+  return found
+}
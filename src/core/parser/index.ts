@@ -5,3 +5,7 @@
 export * from './SidlParser'
 export * from './EquiParser'
 export * from './XmlSerializer'
+export * from './XmlPatcher'
+export * from './XmlScanner'
+export * from './SchemaValidator'
+export * from './XmlTree'
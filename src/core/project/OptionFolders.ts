@@ -0,0 +1,68 @@
+/**
+ * Option Folders
+ *
+ * Sorts the files of a UI folder into the UI's own files and its option
+ * groups. UIs ship alternative versions of some files in subfolders, one
+ * per feature: "Chat Windows/Tabs Only/EQUI_ChatContainerWindow.xml" is the
+ * "Tabs Only" variant of the "Chat Windows" group. A feature folder holding
+ * files directly, such as "AYADefaultish/EQUI_TargetWindow.xml", is a group
+ * with a single variant of the same name.
+ */
+
+/** Files of one variant subfolder */
+export interface VariantFolder<T> {
+  name: string
+  folder: string // Path inside the UI folder
+  files: T[]
+}
+
+/** A feature folder and its variants */
+export interface OptionFolder<T> {
+  name: string
+  variants: VariantFolder<T>[]
+}
+
+/** A UI folder's files sorted by where they sit */
+export interface OptionFolderLayout<T> {
+  files: T[] // Directly inside the UI folder
+  groups: OptionFolder<T>[]
+}
+
+/**
+ * Sort files by their path inside the UI folder, using '/' separators.
+ * Files nested deeper than a variant folder are left out.
+ */
+export function groupOptionFolders<T>(entries: T[], getPath: (entry: T) => string): OptionFolderLayout<T> {
+  const layout: OptionFolderLayout<T> = { files: [], groups: [] }
+
+  for (const entry of entries) {
+    const parts = getPath(entry).split('/').filter((part) => part !== '')
+    if (parts.length === 1) {
+      layout.files.push(entry)
+      continue
+    }
+    if (parts.length > 3) continue
+
+    const [groupName, variantName] = parts
+    let group = layout.groups.find((g) => g.name === groupName)
+    if (!group) {
+      group = { name: groupName, variants: [] }
+      layout.groups.push(group)
+    }
+
+    // Files directly in a feature folder are its only variant
+    const name = parts.length === 2 ? groupName : variantName
+    let variant = group.variants.find((v) => v.name === name)
+    if (!variant) {
+      variant = { name, folder: parts.length === 2 ? groupName : `${groupName}/${variantName}`, files: [] }
+      group.variants.push(variant)
+    }
+    variant.files.push(entry)
+  }
+
+  layout.groups.sort((a, b) => a.name.localeCompare(b.name))
+  for (const group of layout.groups) {
+    group.variants.sort((a, b) => a.name.localeCompare(b.name))
+  }
+  return layout
+}
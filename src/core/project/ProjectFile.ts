@@ -0,0 +1,290 @@
+/**
+ * Project File
+ *
+ * Reads and writes the native .uiforge format: a zip holding the parsed
+ * project model, the source XML of every file, the loaded textures and the
+ * editor session state, so a project reopens exactly as it was left.
+ *
+ * Layout:
+ *   project.json         format marker, metadata, model and editor state
+ *   sources/<filename>   original XML each file is patched against on export
+ *   textures/<filename>  texture files in their original formats
+ *   options/<path>       option variant textures, and the UI's own ones
+ *                        the active variants replace
+ *
+ * Files and textures from a base folder are bundled too, marked as such, so
+ * a layered project reopens without the base folder. Option variant sources
+ * sit under sources/ in their variant folders.
+ */
+
+import JSZip from 'jszip'
+import type { UIProject, UIFile, FileLayer, OptionGroup, ProjectMetadata, EditorState } from '@/models/project/Project'
+import { getProjectMetadata, getAllFiles, createEditorState } from '@/models/project/Project'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import { createTemplateLibrary } from '@/models/elements/Templates'
+import type { TextureData } from '@/core/texture/TextureManager'
+
+export const PROJECT_FILE_EXTENSION = '.uiforge'
+export const PROJECT_FILE_FORMAT = 'uiforge-project'
+export const PROJECT_FILE_VERSION = 1
+
+const PROJECT_JSON = 'project.json'
+const SOURCES_FOLDER = 'sources/'
+const TEXTURES_FOLDER = 'textures/'
+const OPTIONS_FOLDER = 'options/'
+
+/** Template library with its maps stored as entry arrays */
+type SerializedTemplateLibrary = { [K in keyof TemplateLibrary]: [string, unknown][] }
+
+interface SerializedFile {
+  filename: string
+  screens: UIFile['screens']
+  templates: SerializedTemplateLibrary
+  isDirty: boolean
+  layer?: FileLayer
+  folder?: string
+}
+
+/** An option group, its variants holding only the files not in use */
+interface SerializedOptionGroup {
+  name: string
+  active: string | null
+  variants: { name: string; folder: string; textures: string[]; files: SerializedFile[] }[]
+}
+
+/** Contents of project.json */
+interface ProjectJson {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  metadata: ProjectMetadata
+  project: {
+    name: string
+    version: string
+    basePath?: string
+    includes?: string[]
+    baseName?: string
+    files: SerializedFile[]
+    optionGroups?: SerializedOptionGroup[]
+    replacedFiles?: SerializedFile[]
+  }
+  baseTextures?: string[] // Texture files that come from the base folder
+  editor: EditorState
+}
+
+/** A project read back from a .uiforge file */
+export interface OpenedProjectFile {
+  project: UIProject
+  textures: File[]
+  baseTextures: File[]
+  optionTextures: Map<string, File> // By path, e.g. "Spell Gems/Mystical/spells01.tga"
+  editor: EditorState
+}
+
+function serializeTemplates(library: TemplateLibrary): SerializedTemplateLibrary {
+  const result = {} as SerializedTemplateLibrary
+  for (const key of Object.keys(library) as (keyof TemplateLibrary)[]) {
+    result[key] = [...library[key].entries()]
+  }
+  return result
+}
+
+function deserializeTemplates(data: Partial<SerializedTemplateLibrary> | undefined): TemplateLibrary {
+  const library = createTemplateLibrary()
+  for (const key of Object.keys(library) as (keyof TemplateLibrary)[]) {
+    // Each map keeps its own value type; entries come back exactly as written
+    library[key] = new Map(data?.[key] ?? []) as never
+  }
+  return library
+}
+
+function serializeFile(file: UIFile): SerializedFile {
+  return {
+    filename: file.filename,
+    screens: file.screens,
+    templates: serializeTemplates(file.templates),
+    isDirty: file.isDirty,
+    layer: file.layer,
+    folder: file.folder,
+  }
+}
+
+/** Where a file's source XML is kept in the zip */
+function getSourcePath(file: { filename: string; folder?: string }): string {
+  return SOURCES_FOLDER + (file.folder ? `${file.folder}/` : '') + file.filename
+}
+
+/** Merge every file's definitions into one library, later files winning */
+function mergeTemplates(files: UIFile[]): TemplateLibrary {
+  const merged = createTemplateLibrary()
+  for (const file of files) {
+    for (const key of Object.keys(merged) as (keyof TemplateLibrary)[]) {
+      const target = merged[key] as Map<string, unknown>
+      for (const [name, value] of file.templates[key]) {
+        target.set(name, value)
+      }
+    }
+  }
+  return merged
+}
+
+/**
+ * Bundle a project, its textures and the editor state into a .uiforge zip.
+ * `baseTextures` names the textures that come from the base folder, and
+ * `optionTextures` holds the option variants' textures by path.
+ */
+export async function createProjectFile(
+  project: UIProject,
+  textures: TextureData[],
+  editor: EditorState,
+  baseTextures: string[] = [],
+  optionTextures: Map<string, Blob> = new Map()
+): Promise<Blob> {
+  const zip = new JSZip()
+  const inUse = new Set(project.files)
+
+  const json: ProjectJson = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    metadata: getProjectMetadata(project),
+    project: {
+      name: project.name,
+      version: project.version,
+      basePath: project.basePath,
+      includes: project.includes,
+      baseName: project.baseName,
+      files: project.files.map(serializeFile),
+      optionGroups: project.optionGroups?.map((group) => ({
+        name: group.name,
+        active: group.active,
+        variants: group.variants.map((variant) => ({
+          name: variant.name,
+          folder: variant.folder,
+          textures: variant.textures,
+          files: variant.files.filter((file) => !inUse.has(file)).map(serializeFile),
+        })),
+      })),
+      replacedFiles: project.replacedFiles?.map(serializeFile),
+    },
+    baseTextures: baseTextures.length > 0 ? baseTextures : undefined,
+    editor,
+  }
+  zip.file(PROJECT_JSON, JSON.stringify(json, null, 2))
+
+  for (const file of getAllFiles(project)) {
+    if (file.originalXml !== undefined) {
+      zip.file(getSourcePath(file), file.originalXml)
+    }
+  }
+
+  for (const texture of textures) {
+    zip.file(TEXTURES_FOLDER + texture.filename, await texture.source.arrayBuffer())
+  }
+  for (const [path, texture] of optionTextures) {
+    zip.file(OPTIONS_FOLDER + path, await texture.arrayBuffer())
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+}
+
+/**
+ * Read a .uiforge file back into a project, its texture files and editor state
+ */
+export async function readProjectFile(data: Blob | ArrayBuffer): Promise<OpenedProjectFile> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch {
+    throw new Error('Not a UIForge project file')
+  }
+
+  const entry = zip.file(PROJECT_JSON)
+  if (!entry) {
+    throw new Error(`Project file is missing ${PROJECT_JSON}`)
+  }
+
+  const json = JSON.parse(await entry.async('string')) as ProjectJson
+  if (json.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('Not a UIForge project file')
+  }
+  if (json.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${json.version} is newer than this editor supports`)
+  }
+
+  const readFile = async (saved: SerializedFile): Promise<UIFile> => {
+    const source = zip.file(getSourcePath(saved))
+    return {
+      filename: saved.filename,
+      screens: saved.screens,
+      templates: deserializeTemplates(saved.templates),
+      isDirty: saved.isDirty,
+      originalXml: source ? await source.async('string') : undefined,
+      layer: saved.layer,
+      folder: saved.folder,
+    }
+  }
+
+  const files: UIFile[] = []
+  for (const saved of json.project.files) {
+    files.push(await readFile(saved))
+  }
+
+  // Variant files in use are shared with the project's files
+  const optionGroups: OptionGroup[] = []
+  for (const saved of json.project.optionGroups ?? []) {
+    const group: OptionGroup = { name: saved.name, active: saved.active, variants: [] }
+    for (const variant of saved.variants) {
+      const variantFiles = files.filter((file) => file.folder === variant.folder)
+      for (const file of variant.files) variantFiles.push(await readFile(file))
+      group.variants.push({ name: variant.name, folder: variant.folder, textures: variant.textures, files: variantFiles })
+    }
+    optionGroups.push(group)
+  }
+
+  const replacedFiles: UIFile[] = []
+  for (const saved of json.project.replacedFiles ?? []) {
+    replacedFiles.push(await readFile(saved))
+  }
+
+  const project: UIProject = {
+    name: json.project.name,
+    version: json.project.version,
+    files,
+    templates: mergeTemplates(files),
+    basePath: json.project.basePath,
+    includes: json.project.includes,
+    baseName: json.project.baseName,
+    optionGroups: json.project.optionGroups ? optionGroups : undefined,
+    replacedFiles: json.project.replacedFiles ? replacedFiles : undefined,
+    createdAt: json.metadata.createdAt,
+    modifiedAt: json.metadata.modifiedAt,
+  }
+
+  const textures: File[] = []
+  const baseTextures: File[] = []
+  const baseTextureNames = new Set(json.baseTextures ?? [])
+  const textureEntries = zip.folder(TEXTURES_FOLDER)?.filter((_, file) => !file.dir) ?? []
+  for (const texture of textureEntries) {
+    const filename = texture.name.slice(TEXTURES_FOLDER.length)
+    const file = new File([await texture.async('blob')], filename)
+    if (baseTextureNames.has(filename)) {
+      baseTextures.push(file)
+    } else {
+      textures.push(file)
+    }
+  }
+
+  const optionTextures = new Map<string, File>()
+  const optionEntries = zip.folder(OPTIONS_FOLDER)?.filter((_, file) => !file.dir) ?? []
+  for (const texture of optionEntries) {
+    const path = texture.name.slice(OPTIONS_FOLDER.length)
+    optionTextures.set(path, new File([await texture.async('blob')], path.split('/').pop() as string))
+  }
+
+  return {
+    project,
+    textures,
+    baseTextures,
+    optionTextures,
+    editor: { ...createEditorState(), ...json.editor },
+  }
+}
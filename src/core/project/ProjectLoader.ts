@@ -0,0 +1,126 @@
+/**
+ * Project Loader
+ *
+ * Turns a set of UI files into parsed files ready for the project: orders
+ * them by the EQUI.xml manifest, parses each against the schema and resolves
+ * Pieces references across files. Uses no DOM APIs, so it runs on the main
+ * thread, in the loader worker or in Node.
+ */
+
+import type { SidlSchema } from '@/core/parser/SidlParser'
+import type { FileLayer } from '@/models/project/Project'
+import { parseEquiFile, resolvePiecesReferences, isManifestFile, type ParsedEquiFile } from '@/core/parser/EquiParser'
+
+/** A UI file's name and XML */
+export interface SourceFile {
+  name: string
+  content: string
+  layer?: FileLayer // Set when the file is laid over a base folder
+}
+
+/** A parsed file and the XML it was parsed from */
+export interface LoadedFile {
+  parsed: ParsedEquiFile
+  content: string
+  layer?: FileLayer
+}
+
+/** Result of loading a set of files */
+export interface LoadedProject {
+  files: LoadedFile[] // In load order, manifests left out
+  includes?: string[] // Manifest file list, when there is a manifest
+  missingIncludes: string[] // Manifest entries with no matching file
+}
+
+/** How far a load has got */
+export interface LoadProgress {
+  loaded: number
+  total: number
+  filename?: string // File being parsed
+}
+
+/** Message posted to the loader worker */
+export interface LoaderRequest {
+  files: File[]
+  baseFiles?: File[] // Base folder the files are laid over
+  schema?: SidlSchema
+}
+
+/** Messages posted back by the loader worker */
+export type LoaderResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'done'; project: LoadedProject }
+  | { type: 'error'; message: string }
+
+/**
+ * Lay a UI's files over a base folder's the way the client does: every file
+ * the UI doesn't have, its manifest included, comes from the base folder.
+ * Base files come first so the UI's own definitions win.
+ */
+export function overlaySources(sources: SourceFile[], baseSources: SourceFile[]): SourceFile[] {
+  const baseNames = new Set(baseSources.map((source) => source.name.toLowerCase()))
+  const ownNames = new Set(sources.map((source) => source.name.toLowerCase()))
+
+  const base = baseSources
+    .filter((source) => !ownNames.has(source.name.toLowerCase()))
+    .map((source): SourceFile => ({ ...source, layer: 'base' }))
+  const own = sources.map((source): SourceFile =>
+    baseNames.has(source.name.toLowerCase()) ? { ...source, layer: 'override' } : source
+  )
+  return [...base, ...own]
+}
+
+/**
+ * Parse a set of files, in manifest order when an EQUI.xml lists them
+ */
+export function loadProjectSources(
+  sources: SourceFile[],
+  schema?: SidlSchema,
+  onProgress?: (progress: LoadProgress) => void
+): LoadedProject {
+  const result: LoadedProject = { files: [], missingIncludes: [] }
+  let ordered = sources
+
+  const manifest = sources.find((source) => source.name.toLowerCase() === 'equi.xml')
+  if (manifest) {
+    const parsed = parseEquiFile(manifest.content, manifest.name)
+
+    if (isManifestFile(parsed) && parsed.includes) {
+      result.includes = parsed.includes
+
+      // Files the manifest lists come first, in its order
+      const byName = new Map(sources.map((source) => [source.name, source]))
+      ordered = []
+      for (const name of parsed.includes) {
+        const source = byName.get(name)
+        if (source) {
+          ordered.push(source)
+        } else {
+          result.missingIncludes.push(name)
+        }
+      }
+      for (const source of sources) {
+        if (!ordered.includes(source) && source !== manifest) {
+          ordered.push(source)
+        }
+      }
+    }
+  }
+
+  ordered.forEach((source, index) => {
+    onProgress?.({ loaded: index, total: ordered.length, filename: source.name })
+    const parsed = parseEquiFile(source.content, source.name, schema)
+
+    // Skip manifest-only files
+    if (!isManifestFile(parsed)) {
+      result.files.push({ parsed, content: source.content, layer: source.layer })
+    }
+  })
+
+  if (result.files.length > 0) {
+    resolvePiecesReferences(result.files.map((file) => file.parsed))
+  }
+  onProgress?.({ loaded: ordered.length, total: ordered.length })
+
+  return result
+}
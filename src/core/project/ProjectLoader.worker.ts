@@ -0,0 +1,33 @@
+/**
+ * Project Loader Worker
+ *
+ * Reads and parses a project's files off the main thread, posting progress
+ * as each file is parsed and the loaded project when done.
+ */
+
+import { loadProjectSources, overlaySources, type LoaderRequest, type LoaderResponse, type SourceFile } from './ProjectLoader'
+
+const scope = self as unknown as Worker
+
+function respond(response: LoaderResponse): void {
+  scope.postMessage(response)
+}
+
+scope.onmessage = async (event: MessageEvent<LoaderRequest>) => {
+  const { files, baseFiles, schema } = event.data
+  try {
+    const read = async (list: File[]): Promise<SourceFile[]> => {
+      const sources: SourceFile[] = []
+      for (const file of list) {
+        sources.push({ name: file.name, content: await file.text() })
+      }
+      return sources
+    }
+
+    const sources = baseFiles ? overlaySources(await read(files), await read(baseFiles)) : await read(files)
+    const project = loadProjectSources(sources, schema, (progress) => respond({ type: 'progress', progress }))
+    respond({ type: 'done', project })
+  } catch (err) {
+    respond({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
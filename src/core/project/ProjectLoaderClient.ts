@@ -0,0 +1,60 @@
+/**
+ * Project Loader Client
+ *
+ * Runs the project loader in a Web Worker so opening a large UI folder
+ * doesn't block the editor. Falls back to the main thread where workers
+ * aren't available.
+ */
+
+import type { SidlSchema } from '@/core/parser/SidlParser'
+import {
+  loadProjectSources,
+  overlaySources,
+  type LoadedProject,
+  type LoadProgress,
+  type LoaderRequest,
+  type LoaderResponse,
+} from './ProjectLoader'
+
+/**
+ * Read and parse a set of files in a worker, reporting progress per file.
+ * With `baseFiles` the files are laid over that base folder's.
+ */
+export async function loadProjectFiles(
+  files: File[],
+  schema?: SidlSchema,
+  onProgress?: (progress: LoadProgress) => void,
+  baseFiles?: File[]
+): Promise<LoadedProject> {
+  if (typeof Worker === 'undefined') {
+    const read = (list: File[]) => Promise.all(list.map(async (file) => ({ name: file.name, content: await file.text() })))
+    const sources = baseFiles ? overlaySources(await read(files), await read(baseFiles)) : await read(files)
+    return loadProjectSources(sources, schema, onProgress)
+  }
+
+  const worker = new Worker(new URL('./ProjectLoader.worker.ts', import.meta.url), { type: 'module' })
+  try {
+    return await new Promise<LoadedProject>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<LoaderResponse>) => {
+        const response = event.data
+        switch (response.type) {
+          case 'progress':
+            onProgress?.(response.progress)
+            break
+          case 'done':
+            resolve(response.project)
+            break
+          case 'error':
+            reject(new Error(response.message))
+            break
+        }
+      }
+      worker.onerror = (event) => reject(new Error(event.message || 'Project loader worker failed'))
+
+      const request: LoaderRequest = { files, baseFiles, schema }
+      worker.postMessage(request)
+    })
+  } finally {
+    worker.terminate()
+  }
+}
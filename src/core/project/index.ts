@@ -0,0 +1,8 @@
+/**
+ * Project module exports
+ */
+
+export * from './OptionFolders'
+export * from './ProjectFile'
+export * from './ProjectLoader'
+export * from './ProjectLoaderClient'
@@ -0,0 +1,314 @@
+/**
+ * Rename
+ *
+ * Project-wide renames of item names and ScreenIDs. A plan finds every place
+ * the old name is written - library entries, definitions, Pieces and Pages
+ * references and template references in every file - so it can be previewed,
+ * then writes the new name into all of them at once. EQUI.xml Includes name
+ * files rather than items, so renames leave the manifest alone; an Include of
+ * a file named after the item is listed as skipped in the plan. Files from a
+ * base folder are read-only, so a rename that changes one waits until the
+ * file is overridden.
+ */
+
+import type { UIProject, UIFile } from '@/models/project/Project'
+import { isBaseFile } from '@/models/project/Project'
+import type { ScreenPiece, PieceReference } from '@/models/elements/ScreenPiece'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import { renameItemAttribute } from '@/core/parser/XmlPatcher'
+import { getPieceReferences, getDefinitionReferences, type DefinitionKind, type TemplateReference } from '@/core/references/TemplateReferences'
+import { describeNode, type UsageNode } from '@/core/references/DependencyIndex'
+
+/** One place in a file the renamed name is written */
+export interface RenameOccurrence {
+  filename: string
+  description: string // What holds the name, e.g. "BuffWindow: BW_Buttons Pieces"
+}
+
+/** Everything a rename changes, found before it is applied */
+export interface RenamePlan {
+  title: string // What is renamed, e.g. "Ui2DAnimation A_RecessedBox"
+  oldName: string
+  occurrences: RenameOccurrence[]
+  skipped: RenameOccurrence[] // Places that look like they name the item but are left alone
+  files: string[] // Files the rename changes
+  validate(name: string): string | null // Why the name can't be used, or null
+  apply(name: string): void // Write the name everywhere; applying the old name undoes it
+}
+
+/** Collects occurrences and the setters that rewrite them */
+interface PlanBuilder {
+  occurrences: RenameOccurrence[]
+  skipped: RenameOccurrence[]
+  setters: ((name: string) => void)[]
+  files: Set<string>
+}
+
+/**
+ * Plan renaming a library definition or top-level item
+ */
+export function planItemRename(project: UIProject, node: UsageNode): RenamePlan {
+  if (node.kind === 'files') {
+    throw new Error('Texture files are renamed on disk, not in the project')
+  }
+
+  const builder: PlanBuilder = { occurrences: [], skipped: [], setters: [], files: new Set() }
+  if (node.kind === 'pieces') {
+    addItemOccurrences(builder, project, node.name)
+    addSkippedIncludes(builder, project, node.name)
+  } else {
+    addDefinitionOccurrences(builder, project, node.kind, node.name)
+  }
+
+  const library = node.kind === 'pieces' ? null : project.templates[node.kind]
+  return createPlan(builder, project, describeNode(node), node.name, (name) => {
+    const taken = library ? library.has(name) : project.files.some((file) => file.screens.some((s) => s.item === name))
+    return taken ? `${describeNode({ kind: node.kind, name })} already exists` : null
+  })
+}
+
+/**
+ * Plan renaming a piece's ScreenID, along with every copy of it
+ */
+export function planScreenIdRename(project: UIProject, piece: ScreenPiece): RenamePlan {
+  const builder: PlanBuilder = { occurrences: [], skipped: [], setters: [], files: new Set() }
+  const linkId = piece.sourceId ?? piece.id
+  const linked = new Set<ScreenPiece>()
+  const parents = new Set<ScreenPiece>() // Where each copy is a child, since every one is renamed
+
+  forEachPiece(project, (candidate, file, root, parent) => {
+    if ((candidate.sourceId ?? candidate.id) !== linkId) return
+    linked.add(candidate)
+    if (parent) parents.add(parent)
+    builder.setters.push((name) => {
+      candidate.screenId = name
+    })
+    // Copies are written as references, so only the definition changes a file
+    if (!candidate.sourceId) {
+      addOccurrence(builder, file, `${root.item ?? root.screenId}: ScreenID`)
+    }
+  })
+
+  return createPlan(builder, project, `ScreenID ${piece.screenId}`, piece.screenId, (name) => {
+    for (const parent of parents) {
+      if (parent.children.some((child) => !linked.has(child) && child.screenId === name)) {
+        return `${parent.screenId} already has a ${name}`
+      }
+    }
+    return null
+  })
+}
+
+/**
+ * Wrap collected occurrences in a plan
+ */
+function createPlan(
+  builder: PlanBuilder,
+  project: UIProject,
+  title: string,
+  oldName: string,
+  findConflict: (name: string) => string | null
+): RenamePlan {
+  const readOnly = project.files.filter((file) => isBaseFile(file) && builder.files.has(file.filename))
+  return {
+    title,
+    oldName,
+    occurrences: builder.occurrences,
+    skipped: builder.skipped,
+    files: [...builder.files],
+    validate(name) {
+      if (!name.trim()) return 'Enter a name'
+      if (/\s/.test(name)) return 'Names cannot contain spaces'
+      if (readOnly.length > 0) {
+        return `Override ${readOnly.map((file) => file.filename).join(', ')} first; base files are read-only`
+      }
+      if (name === oldName) return null
+      return findConflict(name)
+    },
+    apply(name) {
+      for (const set of builder.setters) set(name)
+    },
+  }
+}
+
+/**
+ * A top-level item: its definitions and copies, and the Pieces and Pages
+ * references that name it
+ */
+function addItemOccurrences(builder: PlanBuilder, project: UIProject, oldName: string): void {
+  const definitionIds = new Set<string>()
+  for (const file of project.files) {
+    for (const root of file.screens) {
+      if (root.item !== oldName) continue
+      definitionIds.add(root.id)
+      addOccurrence(builder, file, `${root.type} item`)
+      addOriginalXmlSetter(builder, file, oldName)
+    }
+  }
+
+  forEachPiece(project, (piece, file, root) => {
+    if (piece.item === oldName && (definitionIds.has(piece.id) || definitionIds.has(piece.sourceId ?? ''))) {
+      builder.setters.push((name) => {
+        piece.item = name
+      })
+    }
+
+    piece.children.forEach((child) => {
+      if (child.reference?.name !== oldName) return
+      const original = child.reference
+      builder.setters.push((name) => {
+        child.reference = renameReference(original, oldName, name)
+      })
+      if (!piece.sourceId) {
+        addOccurrence(builder, file, `${root.item ?? root.screenId}: ${piece.screenId} ${original.tag}`)
+      }
+    })
+
+    const unresolved = piece.unresolvedReferences
+    unresolved?.forEach((reference, index) => {
+      if (reference.name !== oldName) return
+      builder.setters.push((name) => {
+        unresolved[index] = renameReference(reference, oldName, name)
+      })
+      if (!piece.sourceId) {
+        addOccurrence(builder, file, `${root.item ?? root.screenId}: ${piece.screenId} ${reference.tag}`)
+      }
+    })
+  })
+}
+
+/**
+ * Manifest Includes of a file named after the item, which the client loads by
+ * filename whatever the item inside is called
+ */
+function addSkippedIncludes(builder: PlanBuilder, project: UIProject, oldName: string): void {
+  const filename = `EQUI_${oldName}.xml`.toLowerCase()
+  for (const include of project.includes ?? []) {
+    if (include.toLowerCase() !== filename) continue
+    builder.skipped.push({ filename: 'EQUI.xml', description: `Include ${include} names the file, which keeps its name` })
+  }
+}
+
+/**
+ * A library definition: its entries in the project and file libraries, and
+ * every template reference that resolves to it
+ */
+function addDefinitionOccurrences(builder: PlanBuilder, project: UIProject, kind: DefinitionKind, oldName: string): void {
+  const libraries = new Set<Map<string, unknown>>([project.templates[kind]])
+  for (const file of project.files) {
+    if (!file.templates[kind].has(oldName)) continue
+    libraries.add(file.templates[kind])
+    addOccurrence(builder, file, describeNode({ kind, name: oldName }))
+    addOriginalXmlSetter(builder, file, oldName)
+  }
+  for (const library of libraries) {
+    const definition = library.get(oldName) as { item: string } | undefined
+    if (!definition) continue
+    builder.setters.push((name) => {
+      definition.item = name
+      renameKey(library, definition, name)
+    })
+  }
+
+  // The same reference is reached from both libraries; rename it once
+  const seen = new Map<object, Set<string>>()
+  const matches = (reference: TemplateReference): boolean => {
+    if (reference.name !== oldName) return false
+    if (reference.kinds.find((k) => project.templates[k].has(oldName)) !== kind) return false
+    const keys = seen.get(reference.owner) ?? new Set()
+    seen.set(reference.owner, keys)
+    if (keys.has(reference.key)) return false
+    keys.add(reference.key)
+    return true
+  }
+  const addReferenceSetter = (reference: TemplateReference): void => {
+    builder.setters.push((name) => {
+      (reference.owner as Record<string, unknown>)[reference.key] = name
+    })
+  }
+
+  forEachPiece(project, (piece, file, root) => {
+    for (const reference of getPieceReferences(piece)) {
+      if (!matches(reference)) continue
+      addReferenceSetter(reference)
+      if (!piece.sourceId) {
+        addOccurrence(builder, file, `${root.item ?? root.screenId}: ${piece.screenId} ${reference.property}`)
+      }
+    }
+  })
+
+  const forEachDefinition = (templates: TemplateLibrary, visit: (kind: DefinitionKind, name: string, definition: unknown) => void) => {
+    for (const definitionKind of Object.keys(templates) as DefinitionKind[]) {
+      for (const [name, definition] of templates[definitionKind]) visit(definitionKind, name, definition)
+    }
+  }
+  for (const file of project.files) {
+    forEachDefinition(file.templates, (definitionKind, name, definition) => {
+      for (const reference of getDefinitionReferences(definitionKind, definition)) {
+        if (!matches(reference)) continue
+        addReferenceSetter(reference)
+        addOccurrence(builder, file, `${describeNode({ kind: definitionKind, name })}: ${reference.property}`)
+      }
+    })
+  }
+  // Definitions only in the project library, e.g. from files since closed
+  forEachDefinition(project.templates, (definitionKind, _name, definition) => {
+    for (const reference of getDefinitionReferences(definitionKind, definition)) {
+      if (matches(reference)) addReferenceSetter(reference)
+    }
+  })
+}
+
+function addOccurrence(builder: PlanBuilder, file: UIFile, description: string): void {
+  builder.occurrences.push({ filename: file.filename, description })
+  builder.files.add(file.filename)
+}
+
+/**
+ * Keep the file's original source in step, so saving patches the renamed
+ * definition in place
+ */
+function addOriginalXmlSetter(builder: PlanBuilder, file: UIFile, oldName: string): void {
+  let current = oldName
+  builder.setters.push((name) => {
+    if (file.originalXml !== undefined && name !== current) {
+      file.originalXml = renameItemAttribute(file.originalXml, current, name)
+    }
+    current = name
+  })
+}
+
+/**
+ * Re-key a library entry in place, keeping its position
+ */
+function renameKey(library: Map<string, unknown>, definition: unknown, name: string): void {
+  const entries = [...library].map(([key, value]): [string, unknown] => [value === definition ? name : key, value])
+  library.clear()
+  for (const [key, value] of entries) library.set(key, value)
+}
+
+/**
+ * A reference naming the renamed item, keeping any prefix such as "Page:"
+ */
+function renameReference(reference: PieceReference, oldName: string, name: string): PieceReference {
+  const prefix = reference.text.endsWith(oldName) ? reference.text.slice(0, reference.text.length - oldName.length) : ''
+  return { ...reference, name, text: prefix + name }
+}
+
+/**
+ * Visit every piece in the project, copies included
+ */
+function forEachPiece(
+  project: UIProject,
+  visit: (piece: ScreenPiece, file: UIFile, root: ScreenPiece, parent: ScreenPiece | undefined) => void
+): void {
+  for (const file of project.files) {
+    for (const root of file.screens) {
+      const walk = (piece: ScreenPiece, parent: ScreenPiece | undefined): void => {
+        visit(piece, file, root, parent)
+        for (const child of piece.children) walk(child, piece)
+      }
+      walk(root, undefined)
+    }
+  }
+}
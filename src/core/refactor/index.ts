@@ -0,0 +1,5 @@
+/**
+ * Refactor module exports
+ */
+
+export * from './Rename'
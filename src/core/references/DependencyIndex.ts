@@ -0,0 +1,218 @@
+/**
+ * Dependency Index
+ *
+ * Links everything in a project to what it uses: texture files to the
+ * TextureInfo that names them, TextureInfo to Ui2DAnimation, animations to
+ * the draw templates, and templates and other items to the screen pieces
+ * that use them. Answers "who uses this?" and "what does this window need?".
+ */
+
+import type { UIProject } from '@/models/project/Project'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import { REFERENCE_LIBRARIES } from '@/core/schema/PropertyBindings'
+import { getPieceReferences, getDefinitionReferences, type DefinitionKind, type TemplateReference } from './TemplateReferences'
+
+/** What a node is: a library definition, a top-level piece item or a texture file */
+export type UsageKind = DefinitionKind | 'pieces' | 'files'
+
+/** Something that can be used or use others */
+export interface UsageNode {
+  kind: UsageKind
+  name: string // Item name, or lower-case file name for files
+}
+
+/** One reference from a node to another */
+export interface Usage {
+  from: UsageNode
+  to: UsageNode
+  property: string // XML property holding the name, e.g. "ButtonDrawTemplate/Normal"
+  filename: string // UI file the using node is defined in
+  elementId?: string // Piece inside the using item that holds the reference
+  screenId?: string
+  resolved: boolean // False when the used node is not defined
+}
+
+/** Usages indexed both ways by node key */
+export interface DependencyIndex {
+  dependencies: Map<string, Usage[]> // What each node uses
+  usages: Map<string, Usage[]> // What uses each node
+}
+
+/** A node of a dependency graph and its distance from the root */
+export interface DependencyGraphNode {
+  node: UsageNode
+  depth: number
+}
+
+/** Everything a node needs, directly or through other nodes */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[] // Root first, then by depth
+  edges: Usage[]
+}
+
+/**
+ * Key a node is indexed by
+ */
+export function getNodeKey(node: UsageNode): string {
+  return `${node.kind}:${node.name}`
+}
+
+/**
+ * Node for a texture file, matched by name the way the client does
+ */
+export function getTextureFileNode(filename: string): UsageNode {
+  const name = filename.split(/[\\/]/).pop() ?? filename
+  return { kind: 'files', name: name.toLowerCase() }
+}
+
+/**
+ * Describe a node for display, e.g. "Ui2DAnimation A_RecessedBox"
+ */
+export function describeNode(node: UsageNode): string {
+  if (node.kind === 'files') return `File ${node.name}`
+  if (node.kind === 'pieces') return `Item ${node.name}`
+  const typeName = Object.entries(REFERENCE_LIBRARIES).find(([, library]) => library === node.kind)?.[0]
+  return `${typeName ?? node.kind} ${node.name}`
+}
+
+/**
+ * Index every reference in the project
+ */
+export function buildDependencyIndex(project: UIProject): DependencyIndex {
+  const index: DependencyIndex = { dependencies: new Map(), usages: new Map() }
+  const isDefined = (kind: DefinitionKind, name: string) => project.templates[kind].has(name)
+
+  const add = (usage: Usage): void => {
+    const fromKey = getNodeKey(usage.from)
+    const toKey = getNodeKey(usage.to)
+    index.dependencies.set(fromKey, [...(index.dependencies.get(fromKey) ?? []), usage])
+    index.usages.set(toKey, [...(index.usages.get(toKey) ?? []), usage])
+  }
+
+  // A name resolves to the first library that defines it
+  const addReference = (from: UsageNode, reference: TemplateReference, filename: string, piece?: ScreenPiece): void => {
+    const kind = reference.kinds.find((k) => isDefined(k, reference.name))
+    add({
+      from,
+      to: { kind: kind ?? reference.kinds[0], name: reference.name },
+      property: reference.property,
+      filename,
+      elementId: piece?.id,
+      screenId: piece?.screenId,
+      resolved: kind !== undefined,
+    })
+  }
+
+  const definedItems = new Set<string>()
+  for (const file of project.files) {
+    for (const screen of file.screens) {
+      if (screen.item) definedItems.add(screen.item)
+    }
+  }
+
+  for (const file of project.files) {
+    for (const root of file.screens) {
+      if (!root.item) continue
+      const from: UsageNode = { kind: 'pieces', name: root.item }
+
+      // Copies of other items stand for a Pieces reference; their contents
+      // belong to the item they copy
+      const walk = (piece: ScreenPiece): void => {
+        for (const reference of getPieceReferences(piece)) {
+          addReference(from, reference, file.filename, piece)
+        }
+        const pieceReferences = [
+          ...piece.children.flatMap((child) => (child.reference ? [child.reference] : [])),
+          ...(piece.unresolvedReferences ?? []),
+        ]
+        for (const reference of pieceReferences) {
+          add({
+            from,
+            to: { kind: 'pieces', name: reference.name },
+            property: reference.tag,
+            filename: file.filename,
+            elementId: piece.id,
+            screenId: piece.screenId,
+            resolved: definedItems.has(reference.name),
+          })
+        }
+        for (const child of piece.children) {
+          if (!child.sourceId) walk(child)
+        }
+      }
+      walk(root)
+    }
+
+    for (const kind of Object.keys(file.templates) as (keyof TemplateLibrary)[]) {
+      for (const [name, definition] of file.templates[kind]) {
+        const from: UsageNode = { kind, name }
+        for (const reference of getDefinitionReferences(kind, definition)) {
+          addReference(from, reference, file.filename)
+        }
+      }
+    }
+
+    for (const [name, texture] of file.templates.textures) {
+      add({
+        from: { kind: 'textures', name },
+        to: getTextureFileNode(texture.filename),
+        property: 'FileName',
+        filename: file.filename,
+        resolved: true,
+      })
+    }
+  }
+
+  return index
+}
+
+/**
+ * Direct uses of a node
+ */
+export function findUsages(index: DependencyIndex, node: UsageNode): Usage[] {
+  return index.usages.get(getNodeKey(node)) ?? []
+}
+
+/**
+ * Every node that uses the given one, directly or through others, nearest first
+ */
+export function findDependents(index: DependencyIndex, node: UsageNode): UsageNode[] {
+  return walkGraph(node, (key) => index.usages.get(key) ?? [], (usage) => usage.from).nodes
+    .slice(1)
+    .map((entry) => entry.node)
+}
+
+/**
+ * Everything a node needs, with the references between them
+ */
+export function getDependencyGraph(index: DependencyIndex, root: UsageNode): DependencyGraph {
+  return walkGraph(root, (key) => index.dependencies.get(key) ?? [], (usage) => usage.to)
+}
+
+/**
+ * Breadth-first walk placing each node at its shortest distance from the root
+ */
+function walkGraph(
+  root: UsageNode,
+  next: (key: string) => Usage[],
+  target: (usage: Usage) => UsageNode
+): DependencyGraph {
+  const seen = new Set([getNodeKey(root)])
+  const nodes: DependencyGraphNode[] = [{ node: root, depth: 0 }]
+  const edges: Usage[] = []
+
+  for (let i = 0; i < nodes.length; i++) {
+    const { node, depth } = nodes[i]
+    for (const usage of next(getNodeKey(node))) {
+      edges.push(usage)
+      const other = target(usage)
+      const key = getNodeKey(other)
+      if (seen.has(key)) continue
+      seen.add(key)
+      nodes.push({ node: other, depth: depth + 1 })
+    }
+  }
+
+  return { nodes, edges }
+}
@@ -0,0 +1,282 @@
+/**
+ * Template References
+ *
+ * Lists the names a screen piece or a template definition refers to through
+ * the template library (TextureInfo, Ui2DAnimation and the draw templates)
+ * and checks whether they resolve. Inline templates are walked into, so a
+ * name inside an inline ButtonDrawTemplate is reported against its piece.
+ */
+
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type { Screen, Button, Gauge, Slider, SpellGem, StaticAnimation, StaticFrame } from '@/models/elements/Controls'
+import type {
+  Ui2DAnimation,
+  FrameTemplate,
+  ButtonDrawTemplate,
+  GaugeDrawTemplate,
+  SliderDrawTemplate,
+  ScrollbarDrawTemplate,
+  SpellGemDrawTemplate,
+  WindowDrawTemplate,
+  TemplateLibrary,
+} from '@/models/elements/Templates'
+import { REFERENCE_LIBRARIES } from '@/core/schema/PropertyBindings'
+
+/** A map of the template library a name can be defined in */
+export type DefinitionKind = keyof TemplateLibrary
+
+/** A name used by a piece or definition */
+export interface TemplateReference {
+  name: string
+  kinds: DefinitionKind[] // Libraries the name may come from; a match in any resolves it
+  property: string // XML property path, e.g. "ButtonDrawTemplate/Normal"
+  owner: object // Piece or template object holding the name
+  key: string // Field of the owner holding the name
+}
+
+/** Tiled backgrounds name an animation or a whole texture */
+const TILED_KINDS: DefinitionKind[] = ['animations', 'textures']
+
+/** Property path of a tag inside an inline template */
+function child(property: string, tag: string): string {
+  return property ? `${property}/${tag}` : tag
+}
+
+/** Add a reference unless the name is unset */
+function addName<T extends object>(
+  list: TemplateReference[],
+  owner: T,
+  key: keyof T & string,
+  kinds: DefinitionKind[],
+  property: string
+): void {
+  const name = owner[key]
+  if (typeof name === 'string' && name) list.push({ name, kinds, property, owner, key })
+}
+
+/** Add Ui2DAnimation references, given the field each property tag is held in */
+function addAnimations<T extends object>(
+  list: TemplateReference[],
+  owner: T,
+  property: string,
+  keys: Record<string, keyof T & string>
+): void {
+  for (const [tag, key] of Object.entries(keys)) {
+    addName(list, owner, key, ['animations'], child(property, tag))
+  }
+}
+
+/**
+ * Names a screen piece refers to. Child pieces are not included.
+ */
+export function getPieceReferences(piece: ScreenPiece): TemplateReference[] {
+  const list: TemplateReference[] = []
+  addName(list, piece, 'drawTemplate', ['windowTemplates'], 'DrawTemplate')
+  addName(list, piece as Screen, 'windowDrawTemplate', ['windowTemplates'], 'WindowDrawTemplate')
+
+  switch (piece.type) {
+    case 'Button':
+      addButtonTemplate(list, piece as Button, 'buttonDrawTemplate', 'ButtonDrawTemplate')
+      break
+    case 'Gauge':
+      addGaugeTemplate(list, piece as Gauge, 'gaugeDrawTemplate', 'GaugeDrawTemplate')
+      break
+    case 'Slider':
+      addSliderTemplate(list, piece as Slider, 'sliderDrawTemplate', 'SliderDrawTemplate')
+      addName(list, piece as Slider, 'sliderArt', ['sliderTemplates'], 'SliderArt')
+      break
+    case 'SpellGem':
+      addSpellGemTemplate(list, piece as SpellGem, 'spellGemDrawTemplate', 'SpellGemDrawTemplate')
+      break
+    case 'StaticAnimation':
+      addName(list, piece as StaticAnimation, 'animation', ['animations'], 'Animation')
+      break
+    case 'StaticFrame':
+      addName(list, piece as StaticFrame, 'frameTemplate', ['frameTemplates'], 'FrameTemplate')
+      break
+  }
+
+  return list
+}
+
+/**
+ * Names a definition from the given library refers to
+ */
+export function getDefinitionReferences(kind: DefinitionKind, definition: unknown): TemplateReference[] {
+  const list: TemplateReference[] = []
+
+  switch (kind) {
+    case 'animations':
+      for (const frame of (definition as Ui2DAnimation).frames) {
+        addName(list, frame, 'texture', ['textures'], 'Frames/Texture')
+      }
+      break
+    case 'frameTemplates':
+      addFrameFields(list, definition as FrameTemplate, '')
+      break
+    case 'buttonTemplates':
+      addButtonFields(list, definition as ButtonDrawTemplate, '')
+      break
+    case 'gaugeTemplates':
+      addGaugeFields(list, definition as GaugeDrawTemplate, '')
+      break
+    case 'sliderTemplates':
+      addSliderFields(list, definition as SliderDrawTemplate, '')
+      break
+    case 'scrollbarTemplates':
+      addScrollbarFields(list, definition as ScrollbarDrawTemplate, '')
+      break
+    case 'spellGemTemplates':
+      addSpellGemFields(list, definition as SpellGemDrawTemplate, '')
+      break
+    case 'windowTemplates':
+      addWindowFields(list, definition as WindowDrawTemplate)
+      break
+  }
+
+  return list
+}
+
+/**
+ * Check whether a reference names a definition in the library
+ */
+export function isReferenceResolved(templates: TemplateLibrary, reference: TemplateReference): boolean {
+  return reference.kinds.some((kind) => templates[kind].has(reference.name))
+}
+
+/**
+ * Describe what a reference should name, e.g. "Ui2DAnimation or TextureInfo"
+ */
+export function describeReferenceKinds(reference: TemplateReference): string {
+  const typeNames = Object.entries(REFERENCE_LIBRARIES)
+  return reference.kinds
+    .map((kind) => typeNames.find(([, library]) => library === kind)?.[0] ?? kind)
+    .join(' or ')
+}
+
+/**
+ * Add a template property that is either a name or an inline template
+ */
+function addTemplate<T extends object, Template extends object>(
+  list: TemplateReference[],
+  owner: T,
+  key: keyof T & string,
+  kind: DefinitionKind,
+  property: string,
+  addFields: (list: TemplateReference[], template: Template, property: string) => void
+): void {
+  const template = owner[key] as Template | string | undefined
+  if (typeof template === 'object') {
+    addFields(list, template, property)
+  } else {
+    addName(list, owner, key, [kind], property)
+  }
+}
+
+function addFrameTemplate<T extends object>(list: TemplateReference[], owner: T, key: keyof T & string, property: string): void {
+  addTemplate(list, owner, key, 'frameTemplates', property, addFrameFields)
+}
+
+function addButtonTemplate<T extends object>(list: TemplateReference[], owner: T, key: keyof T & string, property: string): void {
+  addTemplate(list, owner, key, 'buttonTemplates', property, addButtonFields)
+}
+
+function addGaugeTemplate<T extends object>(list: TemplateReference[], owner: T, key: keyof T & string, property: string): void {
+  addTemplate(list, owner, key, 'gaugeTemplates', property, addGaugeFields)
+}
+
+function addSliderTemplate<T extends object>(list: TemplateReference[], owner: T, key: keyof T & string, property: string): void {
+  addTemplate(list, owner, key, 'sliderTemplates', property, addSliderFields)
+}
+
+function addScrollbarTemplate<T extends object>(list: TemplateReference[], owner: T, key: keyof T & string, property: string): void {
+  addTemplate(list, owner, key, 'scrollbarTemplates', property, addScrollbarFields)
+}
+
+function addSpellGemTemplate<T extends object>(list: TemplateReference[], owner: T, key: keyof T & string, property: string): void {
+  addTemplate(list, owner, key, 'spellGemTemplates', property, addSpellGemFields)
+}
+
+function addFrameFields(list: TemplateReference[], template: FrameTemplate, property: string): void {
+  addAnimations(list, template, property, {
+    TopLeft: 'topLeft',
+    Top: 'top',
+    TopRight: 'topRight',
+    LeftTop: 'leftTop',
+    Left: 'left',
+    LeftBottom: 'leftBottom',
+    BottomLeft: 'bottomLeft',
+    Bottom: 'bottom',
+    BottomRight: 'bottomRight',
+    RightTop: 'rightTop',
+    Right: 'right',
+    RightBottom: 'rightBottom',
+    Middle: 'middle',
+  })
+}
+
+function addButtonFields(list: TemplateReference[], template: ButtonDrawTemplate, property: string): void {
+  addAnimations(list, template, property, {
+    Normal: 'normal',
+    Pressed: 'pressed',
+    Flyby: 'flyby',
+    Disabled: 'disabled',
+    PressedFlyby: 'pressedFlyby',
+    PressedDisabled: 'pressedDisabled',
+    NormalDecal: 'normalDecal',
+    PressedDecal: 'pressedDecal',
+    FlybyDecal: 'flybyDecal',
+    DisabledDecal: 'disabledDecal',
+    PressedFlybyDecal: 'pressedFlybyDecal',
+    PressedDisabledDecal: 'pressedDisabledDecal',
+  })
+}
+
+function addGaugeFields(list: TemplateReference[], template: GaugeDrawTemplate, property: string): void {
+  addAnimations(list, template, property, {
+    Background: 'background',
+    Fill: 'fill',
+    Lines: 'lines',
+    LinesFill: 'linesFill',
+    EndCapLeft: 'endCapLeft',
+    EndCapRight: 'endCapRight',
+  })
+}
+
+function addSliderFields(list: TemplateReference[], template: SliderDrawTemplate, property: string): void {
+  addAnimations(list, template, property, {
+    Background: 'background',
+    EndCapLeft: 'endCapLeft',
+    EndCapRight: 'endCapRight',
+  })
+  addButtonTemplate(list, template, 'thumb', child(property, 'Thumb'))
+}
+
+function addScrollbarFields(list: TemplateReference[], template: ScrollbarDrawTemplate, property: string): void {
+  addName(list, template, 'background', TILED_KINDS, child(property, 'Background'))
+  addName(list, template, 'middleTextureInfo', ['textures'], child(property, 'MiddleTextureInfo'))
+  addButtonTemplate(list, template, 'upButton', child(property, 'UpButton'))
+  addButtonTemplate(list, template, 'downButton', child(property, 'DownButton'))
+  addFrameTemplate(list, template, 'thumb', child(property, 'Thumb'))
+}
+
+function addSpellGemFields(list: TemplateReference[], template: SpellGemDrawTemplate, property: string): void {
+  addAnimations(list, template, property, {
+    Background: 'background',
+    Holder: 'holder',
+    Highlight: 'highlight',
+  })
+}
+
+function addWindowFields(list: TemplateReference[], template: WindowDrawTemplate): void {
+  addName(list, template, 'background', TILED_KINDS, 'Background')
+  addFrameTemplate(list, template, 'titlebar', 'Titlebar')
+  addFrameTemplate(list, template, 'border', 'Border')
+  addButtonTemplate(list, template, 'closeButton', 'CloseBox')
+  addButtonTemplate(list, template, 'minimizeButton', 'MinimizeBox')
+  addButtonTemplate(list, template, 'tileButton', 'TileBox')
+  addButtonTemplate(list, template, 'qmarkButton', 'QMarkBox')
+  addButtonTemplate(list, template, 'maximizeButton', 'MaximizeBox')
+  addScrollbarTemplate(list, template, 'verticalScrollbar', 'VSBTemplate')
+  addScrollbarTemplate(list, template, 'horizontalScrollbar', 'HSBTemplate')
+}
@@ -0,0 +1,6 @@
+/**
+ * References module exports
+ */
+
+export * from './TemplateReferences'
+export * from './DependencyIndex'
@@ -0,0 +1,886 @@
+/**
+ * Template Resolver
+ *
+ * Resolves the draw templates referenced by screen pieces through the
+ * template library into concrete texture regions the canvas can draw.
+ */
+
+import type { RGB } from '@/models/base/Primitives'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import type {
+  Screen,
+  Button,
+  Gauge,
+  Slider,
+  SpellGem,
+  StaticAnimation,
+  StaticFrame,
+} from '@/models/elements/Controls'
+import type {
+  Frame,
+  Ui2DAnimation,
+  FrameTemplate,
+  ButtonDrawTemplate,
+  GaugeDrawTemplate,
+  SliderDrawTemplate,
+  ScrollbarDrawTemplate,
+  SpellGemDrawTemplate,
+  WindowDrawTemplate,
+  TemplateLibrary,
+} from '@/models/elements/Templates'
+
+/** A textured quad to draw, in element-local coordinates */
+export interface TextureLayer {
+  key: string // Stable key for rendering lists
+  texture: string // TextureManager name (file name without extension)
+  crop: { x: number; y: number; width: number; height: number }
+  x: number
+  y: number
+  width: number
+  height: number
+  tint?: RGB
+  repeat?: boolean // Tile the crop across the rect instead of stretching it
+}
+
+/** A rectangle in element-local coordinates */
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Thickness of a frame on each side */
+interface Insets {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/** Visual states a button can be previewed in */
+export type ButtonState = 'normal' | 'flyby' | 'pressed' | 'pressedFlyby' | 'disabled'
+
+/** Options controlling how a piece is resolved to layers */
+export interface TextureLayerOptions {
+  buttonState?: ButtonState
+  gaugeFill?: number // 0-1
+  time?: number // Milliseconds, for cycling animations
+}
+
+/**
+ * Convert a TextureInfo reference to the name TextureManager stores it under
+ */
+export function getTextureName(templates: TemplateLibrary, textureRef: string): string {
+  const filename = templates.textures.get(textureRef)?.filename ?? textureRef
+  const base = filename.split(/[\\/]/).pop() ?? filename
+  return base.replace(/\.[^.]+$/, '')
+}
+
+/**
+ * Look up a Ui2DAnimation by name
+ */
+export function resolveAnimation(
+  templates: TemplateLibrary,
+  name: string | undefined
+): Ui2DAnimation | undefined {
+  if (!name) return undefined
+  return templates.animations.get(name)
+}
+
+/**
+ * Pick the frame of an animation that is visible at the given time
+ */
+export function getAnimationFrame(animation: Ui2DAnimation, time = 0): Frame | undefined {
+  const { frames } = animation
+  if (frames.length <= 1 || !animation.cycle) return frames[0]
+
+  const total = frames.reduce((sum, frame) => sum + (frame.duration || 0), 0)
+  if (total <= 0) return frames[0]
+
+  let remaining = time % total
+  for (const frame of frames) {
+    remaining -= frame.duration || 0
+    if (remaining < 0) return frame
+  }
+  return frames[frames.length - 1]
+}
+
+/**
+ * Get the source rectangle of a frame within its texture.
+ * Grid animations use the first cell; frames without a size cover the texture.
+ */
+export function getFrameCrop(
+  templates: TemplateLibrary,
+  animation: Ui2DAnimation,
+  frame: Frame
+): TextureLayer['crop'] {
+  let width = frame.size.cx
+  let height = frame.size.cy
+
+  if (animation.grid && animation.cellWidth && animation.cellHeight) {
+    width = animation.cellWidth
+    height = animation.cellHeight
+  } else if (width === 0 || height === 0) {
+    const info = templates.textures.get(frame.texture)
+    width = width || info?.size.cx || 0
+    height = height || info?.size.cy || 0
+  }
+
+  return { x: frame.location.x, y: frame.location.y, width, height }
+}
+
+/**
+ * Build a layer that draws an animation's current frame into a rectangle
+ */
+export function getAnimationLayer(
+  templates: TemplateLibrary,
+  animationName: string | undefined,
+  key: string,
+  rect: Rect,
+  time = 0,
+  tint?: RGB
+): TextureLayer | null {
+  const animation = resolveAnimation(templates, animationName)
+  if (!animation) return null
+
+  const frame = getAnimationFrame(animation, time)
+  if (!frame || !frame.texture) return null
+
+  const crop = getFrameCrop(templates, animation, frame)
+  if (crop.width <= 0 || crop.height <= 0 || rect.width <= 0 || rect.height <= 0) return null
+
+  return {
+    key,
+    texture: getTextureName(templates, frame.texture),
+    crop,
+    ...rect,
+    tint,
+  }
+}
+
+/**
+ * Get the natural size of an animation's current frame
+ */
+function getAnimationSize(
+  templates: TemplateLibrary,
+  animationName: string | undefined,
+  time = 0
+): { width: number; height: number } | null {
+  const animation = resolveAnimation(templates, animationName)
+  if (!animation) return null
+  const frame = getAnimationFrame(animation, time)
+  if (!frame) return null
+  const { width, height } = getFrameCrop(templates, animation, frame)
+  return { width, height }
+}
+
+/**
+ * Build a layer that tiles an animation frame, or a whole TextureInfo, over a rectangle
+ */
+function getTiledLayer(
+  templates: TemplateLibrary,
+  name: string | undefined,
+  key: string,
+  rect: Rect,
+  time = 0
+): TextureLayer | null {
+  if (!name || rect.width <= 0 || rect.height <= 0) return null
+
+  if (templates.animations.has(name)) {
+    const layer = getAnimationLayer(templates, name, key, rect, time)
+    return layer && { ...layer, repeat: true }
+  }
+
+  // Window backgrounds name a texture directly
+  const info = templates.textures.get(name)
+  if (!info || info.size.cx <= 0 || info.size.cy <= 0) return null
+  return {
+    key,
+    texture: getTextureName(templates, name),
+    crop: { x: 0, y: 0, width: info.size.cx, height: info.size.cy },
+    ...rect,
+    repeat: true,
+  }
+}
+
+/**
+ * Resolve a frame template (inline or named)
+ */
+export function resolveFrameTemplate(
+  templates: TemplateLibrary,
+  template: FrameTemplate | string | undefined
+): FrameTemplate | undefined {
+  if (!template) return undefined
+  return typeof template === 'string' ? templates.frameTemplates.get(template) : template
+}
+
+/**
+ * Resolve the WindowDrawTemplate a piece is drawn with.
+ * EQ files name it in DrawTemplate; WindowDrawTemplate is accepted too.
+ */
+export function resolveWindowTemplate(
+  templates: TemplateLibrary,
+  piece: ScreenPiece
+): WindowDrawTemplate | undefined {
+  const name = (piece as Screen).windowDrawTemplate ?? piece.drawTemplate
+  return name ? templates.windowTemplates.get(name) : undefined
+}
+
+/**
+ * Get the border thickness of a frame on each side, before overlaps
+ */
+function getFrameThickness(templates: TemplateLibrary, frame: FrameTemplate, time = 0): Insets {
+  const width = (...names: (string | undefined)[]) =>
+    Math.max(0, ...names.map((name) => getAnimationSize(templates, name, time)?.width || 0))
+  const height = (...names: (string | undefined)[]) =>
+    Math.max(0, ...names.map((name) => getAnimationSize(templates, name, time)?.height || 0))
+
+  return {
+    left: width(frame.topLeft, frame.leftTop, frame.left, frame.leftBottom, frame.bottomLeft),
+    top: height(frame.topLeft, frame.top, frame.topRight),
+    right: width(frame.topRight, frame.rightTop, frame.right, frame.rightBottom, frame.bottomRight),
+    bottom: height(frame.bottomLeft, frame.bottom, frame.bottomRight),
+  }
+}
+
+/**
+ * Get the area a frame leaves for content: its thickness less the overlaps
+ */
+export function getFrameInsets(templates: TemplateLibrary, frame: FrameTemplate, time = 0): Insets {
+  const thickness = getFrameThickness(templates, frame, time)
+  return {
+    left: Math.max(0, thickness.left - (frame.overlapLeft ?? 0)),
+    top: Math.max(0, thickness.top - (frame.overlapTop ?? 0)),
+    right: Math.max(0, thickness.right - (frame.overlapRight ?? 0)),
+    bottom: Math.max(0, thickness.bottom - (frame.overlapBottom ?? 0)),
+  }
+}
+
+/**
+ * Layers for a 9-slice frame drawn into a rectangle.
+ * Edges and middle tile between the corners, which keep their natural size.
+ * Corner overlaps let the edges run underneath the corner pieces.
+ */
+export function getFrameLayers(
+  templates: TemplateLibrary,
+  frame: FrameTemplate,
+  rect: Rect,
+  prefix: string,
+  time = 0
+): TextureLayer[] {
+  const size = (name: string | undefined) =>
+    getAnimationSize(templates, name, time) ?? { width: 0, height: 0 }
+  const layers: TextureLayer[] = []
+
+  const addLayer = (name: string | undefined, key: string, area: Rect, repeat: boolean) => {
+    if (!name || area.width <= 0 || area.height <= 0) return
+    const placed = { ...area, x: rect.x + area.x, y: rect.y + area.y }
+    const layer = repeat
+      ? getTiledLayer(templates, name, `${prefix}-${key}`, placed, time)
+      : getAnimationLayer(templates, name, `${prefix}-${key}`, placed, time)
+    if (layer) layers.push(layer)
+  }
+
+  const { width, height } = rect
+  const topLeft = size(frame.topLeft)
+  const topRight = size(frame.topRight)
+  const bottomLeft = size(frame.bottomLeft)
+  const bottomRight = size(frame.bottomRight)
+  const top = size(frame.top)
+  const bottom = size(frame.bottom)
+  const left = size(frame.left)
+  const right = size(frame.right)
+  const leftTop = size(frame.leftTop)
+  const leftBottom = size(frame.leftBottom)
+  const rightTop = size(frame.rightTop)
+  const rightBottom = size(frame.rightBottom)
+
+  // Middle first so the border draws over it
+  addLayer(
+    frame.middle,
+    'middle',
+    {
+      x: left.width,
+      y: top.height,
+      width: width - left.width - right.width,
+      height: height - top.height - bottom.height,
+    },
+    true
+  )
+
+  // Top and bottom edges run between the corners
+  const topStart = topLeft.width - (frame.topLeftOverlapX ?? 0)
+  const topEnd = width - topRight.width + (frame.topRightOverlapX ?? 0)
+  addLayer(frame.top, 'top', { x: topStart, y: 0, width: topEnd - topStart, height: top.height }, true)
+
+  const bottomStart = bottomLeft.width - (frame.bottomLeftOverlapX ?? 0)
+  const bottomEnd = width - bottomRight.width + (frame.bottomRightOverlapX ?? 0)
+  addLayer(
+    frame.bottom,
+    'bottom',
+    { x: bottomStart, y: height - bottom.height, width: bottomEnd - bottomStart, height: bottom.height },
+    true
+  )
+
+  // Side columns: fixed top and bottom caps with a tiled run between them
+  const leftStart = topLeft.height - (frame.topLeftOverlapY ?? 0)
+  const leftEnd = height - bottomLeft.height + (frame.bottomLeftOverlapY ?? 0)
+  addLayer(frame.leftTop, 'leftTop', { x: 0, y: leftStart, ...leftTop }, false)
+  addLayer(
+    frame.left,
+    'left',
+    {
+      x: 0,
+      y: leftStart + leftTop.height,
+      width: left.width,
+      height: leftEnd - leftStart - leftTop.height - leftBottom.height,
+    },
+    true
+  )
+  addLayer(frame.leftBottom, 'leftBottom', { x: 0, y: leftEnd - leftBottom.height, ...leftBottom }, false)
+
+  const rightStart = topRight.height - (frame.topRightOverlapY ?? 0)
+  const rightEnd = height - bottomRight.height + (frame.bottomRightOverlapY ?? 0)
+  addLayer(frame.rightTop, 'rightTop', { x: width - rightTop.width, y: rightStart, ...rightTop }, false)
+  addLayer(
+    frame.right,
+    'right',
+    {
+      x: width - right.width,
+      y: rightStart + rightTop.height,
+      width: right.width,
+      height: rightEnd - rightStart - rightTop.height - rightBottom.height,
+    },
+    true
+  )
+  addLayer(
+    frame.rightBottom,
+    'rightBottom',
+    { x: width - rightBottom.width, y: rightEnd - rightBottom.height, ...rightBottom },
+    false
+  )
+
+  // Corners last, on top of any overlapping edges
+  addLayer(frame.topLeft, 'topLeft', { x: 0, y: 0, ...topLeft }, false)
+  addLayer(frame.topRight, 'topRight', { x: width - topRight.width, y: 0, ...topRight }, false)
+  addLayer(frame.bottomLeft, 'bottomLeft', { x: 0, y: height - bottomLeft.height, ...bottomLeft }, false)
+  addLayer(
+    frame.bottomRight,
+    'bottomRight',
+    { x: width - bottomRight.width, y: height - bottomRight.height, ...bottomRight },
+    false
+  )
+
+  return layers
+}
+
+/**
+ * Resolve a scrollbar template (inline or named)
+ */
+export function resolveScrollbarTemplate(
+  templates: TemplateLibrary,
+  template: ScrollbarDrawTemplate | string | undefined
+): ScrollbarDrawTemplate | undefined {
+  if (!template) return undefined
+  return typeof template === 'string' ? templates.scrollbarTemplates.get(template) : template
+}
+
+/**
+ * Resolve a button template given inline or by name, as scrollbar buttons and slider thumbs are
+ */
+function resolveButtonDrawTemplate(
+  templates: TemplateLibrary,
+  template: ButtonDrawTemplate | string | undefined
+): ButtonDrawTemplate | undefined {
+  if (!template) return undefined
+  return typeof template === 'string' ? templates.buttonTemplates.get(template) : template
+}
+
+/**
+ * Width of a vertical scrollbar, or height of a horizontal one: its widest button
+ */
+function getScrollbarThickness(
+  templates: TemplateLibrary,
+  template: ScrollbarDrawTemplate,
+  vertical: boolean,
+  time = 0
+): number {
+  const sizes = [template.upButton, template.downButton].map((button) =>
+    getAnimationSize(templates, resolveButtonDrawTemplate(templates, button)?.normal, time)
+  )
+  return Math.max(0, ...sizes.map((size) => (vertical ? size?.width : size?.height) || 0))
+}
+
+/**
+ * Layers for a scrollbar scrolled to the start: buttons at both ends, the
+ * tiled track between them and the thumb frame at the top of the track.
+ * Horizontal scrollbars put the up button on the left.
+ */
+function getScrollbarLayers(
+  templates: TemplateLibrary,
+  template: ScrollbarDrawTemplate,
+  rect: Rect,
+  vertical: boolean,
+  prefix: string,
+  time = 0
+): TextureLayer[] {
+  const layers: TextureLayer[] = []
+  const buttonSize = (button: ButtonDrawTemplate | string | undefined) => {
+    const size = getAnimationSize(templates, resolveButtonDrawTemplate(templates, button)?.normal, time)
+    return (vertical ? size?.height : size?.width) || 0
+  }
+  const up = buttonSize(template.upButton)
+  const down = buttonSize(template.downButton)
+  const length = vertical ? rect.height : rect.width
+
+  // Position along the bar, across its full thickness
+  const span = (start: number, size: number): Rect =>
+    vertical
+      ? { x: rect.x, y: rect.y + start, width: rect.width, height: size }
+      : { x: rect.x + start, y: rect.y, width: size, height: rect.height }
+
+  const track = span(up, length - up - down)
+  const middle = getTiledLayer(templates, template.middleTextureInfo ?? template.background, `${prefix}-middle`, track, time)
+  if (middle) layers.push(template.middleTint ? { ...middle, tint: template.middleTint } : middle)
+
+  const thumb = resolveFrameTemplate(templates, template.thumb)
+  if (thumb) {
+    const thumbLength = Math.max(0, Math.min(length - up - down, Math.round((length - up - down) / 3)))
+    layers.push(...getFrameLayers(templates, thumb, span(up, thumbLength), `${prefix}-thumb`, time))
+  }
+
+  const addButton = (button: ButtonDrawTemplate | string | undefined, key: string, area: Rect) => {
+    const layer = getAnimationLayer(
+      templates,
+      resolveButtonDrawTemplate(templates, button)?.normal,
+      `${prefix}-${key}`,
+      area,
+      time
+    )
+    if (layer) layers.push(layer)
+  }
+  addButton(template.upButton, 'up', span(0, up))
+  addButton(template.downButton, 'down', span(length - down, down))
+
+  return layers
+}
+
+/**
+ * Layers for a piece drawn with a WindowDrawTemplate: tiled background,
+ * scrollbars (Style_VScroll, Style_HScroll), then the border (Style_Border)
+ * and titlebar (Style_Titlebar) frames.
+ */
+export function getWindowLayers(
+  templates: TemplateLibrary,
+  piece: ScreenPiece,
+  time = 0
+): TextureLayer[] {
+  const template = resolveWindowTemplate(templates, piece)
+  if (!template) return []
+
+  const { cx, cy } = piece.size
+  const titlebar = piece.style.titlebar ? resolveFrameTemplate(templates, template.titlebar) : undefined
+  const border = piece.style.border ? resolveFrameTemplate(templates, template.border) : undefined
+
+  let titleHeight = 0
+  if (titlebar) {
+    const thickness = getFrameThickness(templates, titlebar, time)
+    const sideHeight = Math.max(
+      getAnimationSize(templates, titlebar.left, time)?.height || 0,
+      getAnimationSize(templates, titlebar.middle, time)?.height || 0,
+      getAnimationSize(templates, titlebar.right, time)?.height || 0
+    )
+    titleHeight = Math.min(cy, template.titlebarHeight || Math.max(thickness.top, sideHeight))
+  }
+
+  const body: Rect = { x: 0, y: titleHeight, width: cx, height: cy - titleHeight }
+  const insets = border ? getFrameInsets(templates, border, time) : { left: 0, top: 0, right: 0, bottom: 0 }
+  const content: Rect = {
+    x: body.x + insets.left,
+    y: body.y + insets.top,
+    width: body.width - insets.left - insets.right,
+    height: body.height - insets.top - insets.bottom,
+  }
+  const layers: TextureLayer[] = []
+
+  if (!piece.style.transparent) {
+    const background = getTiledLayer(templates, template.background, 'background', content, time)
+    if (background) layers.push(background)
+  }
+
+  const vertical = piece.style.vScroll ? resolveScrollbarTemplate(templates, template.verticalScrollbar) : undefined
+  const horizontal = piece.style.hScroll ? resolveScrollbarTemplate(templates, template.horizontalScrollbar) : undefined
+  const vWidth = vertical ? getScrollbarThickness(templates, vertical, true, time) : 0
+  const hHeight = horizontal ? getScrollbarThickness(templates, horizontal, false, time) : 0
+  if (vertical && vWidth > 0) {
+    layers.push(...getScrollbarLayers(templates, vertical, {
+      x: content.x + content.width - vWidth,
+      y: content.y,
+      width: vWidth,
+      height: content.height - hHeight,
+    }, true, 'vscroll', time))
+  }
+  if (horizontal && hHeight > 0) {
+    layers.push(...getScrollbarLayers(templates, horizontal, {
+      x: content.x,
+      y: content.y + content.height - hHeight,
+      width: content.width - vWidth,
+      height: hHeight,
+    }, false, 'hscroll', time))
+  }
+
+  if (border) {
+    layers.push(...getFrameLayers(templates, border, body, 'border', time))
+  }
+  if (titlebar && titleHeight > 0) {
+    layers.push(...getFrameLayers(templates, titlebar, { x: 0, y: 0, width: cx, height: titleHeight }, 'titlebar', time))
+  }
+
+  return layers
+}
+
+/**
+ * Layers for a StaticFrame: its frame template drawn over the whole piece
+ */
+export function getStaticFrameLayers(
+  templates: TemplateLibrary,
+  piece: StaticFrame,
+  time = 0
+): TextureLayer[] {
+  const frame = resolveFrameTemplate(templates, piece.frameTemplate)
+  if (!frame) return []
+  return getFrameLayers(
+    templates,
+    frame,
+    { x: 0, y: 0, width: piece.size.cx, height: piece.size.cy },
+    'frame',
+    time
+  )
+}
+
+/**
+ * Resolve a button's template (inline or named)
+ */
+export function resolveButtonTemplate(
+  templates: TemplateLibrary,
+  button: Button
+): ButtonDrawTemplate | undefined {
+  return resolveButtonDrawTemplate(templates, button.buttonDrawTemplate)
+}
+
+/**
+ * Resolve a gauge's template (inline or named)
+ */
+export function resolveGaugeTemplate(
+  templates: TemplateLibrary,
+  gauge: Gauge
+): GaugeDrawTemplate | undefined {
+  const template = gauge.gaugeDrawTemplate
+  if (!template) return undefined
+  return typeof template === 'string' ? templates.gaugeTemplates.get(template) : template
+}
+
+/**
+ * Resolve a slider's template (inline or named). Shipped files name it in SliderArt.
+ */
+export function resolveSliderTemplate(
+  templates: TemplateLibrary,
+  slider: Slider
+): SliderDrawTemplate | undefined {
+  const template = slider.sliderDrawTemplate ?? slider.sliderArt
+  if (!template) return undefined
+  return typeof template === 'string' ? templates.sliderTemplates.get(template) : template
+}
+
+/**
+ * Resolve a spell gem's template (inline or named)
+ */
+export function resolveSpellGemTemplate(
+  templates: TemplateLibrary,
+  spellGem: SpellGem
+): SpellGemDrawTemplate | undefined {
+  const template = spellGem.spellGemDrawTemplate
+  if (!template) return undefined
+  return typeof template === 'string' ? templates.spellGemTemplates.get(template) : template
+}
+
+/**
+ * Pick the animation for a button state, falling back the way the client does
+ */
+function getButtonStateAnimations(
+  template: ButtonDrawTemplate,
+  state: ButtonState
+): { art?: string; decal?: string } {
+  switch (state) {
+    case 'flyby':
+      return {
+        art: template.flyby ?? template.normal,
+        decal: template.flybyDecal ?? template.normalDecal,
+      }
+    case 'pressed':
+      return {
+        art: template.pressed ?? template.normal,
+        decal: template.pressedDecal ?? template.normalDecal,
+      }
+    case 'pressedFlyby':
+      return {
+        art: template.pressedFlyby ?? template.pressed ?? template.normal,
+        decal: template.pressedFlybyDecal ?? template.pressedDecal ?? template.normalDecal,
+      }
+    case 'disabled':
+      return {
+        art: template.disabled ?? template.normal,
+        decal: template.disabledDecal ?? template.normalDecal,
+      }
+    default:
+      return { art: template.normal, decal: template.normalDecal }
+  }
+}
+
+/**
+ * Layers for a Button: state art stretched to the button, decal on top
+ */
+export function getButtonLayers(
+  templates: TemplateLibrary,
+  button: Button,
+  state: ButtonState = 'normal',
+  time = 0
+): TextureLayer[] {
+  const template = resolveButtonTemplate(templates, button)
+  if (!template) return []
+
+  const { cx, cy } = button.size
+  const { art, decal } = getButtonStateAnimations(template, state)
+  const layers: TextureLayer[] = []
+
+  const artLayer = getAnimationLayer(templates, art, 'art', { x: 0, y: 0, width: cx, height: cy }, time)
+  if (artLayer) layers.push(artLayer)
+
+  const decalRect = {
+    x: button.decalOffset?.x ?? 0,
+    y: button.decalOffset?.y ?? 0,
+    width: button.decalSize?.cx || cx,
+    height: button.decalSize?.cy || cy,
+  }
+  const decalLayer = getAnimationLayer(templates, decal, 'decal', decalRect, time)
+  if (decalLayer) layers.push(decalLayer)
+
+  return layers
+}
+
+/**
+ * Layers for a Gauge: background, fill clipped to the value, lines and end caps
+ */
+export function getGaugeLayers(
+  templates: TemplateLibrary,
+  gauge: Gauge,
+  fill = 0.5,
+  time = 0
+): TextureLayer[] {
+  const template = resolveGaugeTemplate(templates, gauge)
+  if (!template) return []
+
+  const { cx, cy } = gauge.size
+  const percent = Math.max(0, Math.min(1, fill))
+  const layers: TextureLayer[] = []
+
+  // Bars are drawn at their texture height, never taller than the gauge
+  const barHeight = (name: string | undefined) =>
+    Math.min(cy, getAnimationSize(templates, name, time)?.height || cy)
+
+  const addLayer = (name: string | undefined, key: string, clip: number, tint?: RGB) => {
+    const layer = getAnimationLayer(
+      templates,
+      name,
+      key,
+      { x: 0, y: 0, width: cx, height: barHeight(name) },
+      time,
+      tint
+    )
+    if (!layer) return
+    if (clip < 1) {
+      layer.width = Math.round(layer.width * clip)
+      layer.crop = { ...layer.crop, width: Math.round(layer.crop.width * clip) }
+      if (layer.width <= 0 || layer.crop.width <= 0) return
+    }
+    layers.push(layer)
+  }
+
+  addLayer(template.background, 'background', 1)
+  addLayer(template.fill, 'fill', percent, gauge.fillTint)
+  addLayer(template.linesFill, 'linesFill', percent, gauge.linesFillTint)
+  addLayer(template.lines, 'lines', 1)
+
+  const leftCap = getAnimationSize(templates, template.endCapLeft, time)
+  if (leftCap) {
+    const layer = getAnimationLayer(templates, template.endCapLeft, 'endCapLeft', {
+      x: 0,
+      y: 0,
+      width: leftCap.width,
+      height: Math.min(cy, leftCap.height),
+    }, time)
+    if (layer) layers.push(layer)
+  }
+
+  const rightCap = getAnimationSize(templates, template.endCapRight, time)
+  if (rightCap) {
+    const layer = getAnimationLayer(templates, template.endCapRight, 'endCapRight', {
+      x: cx - rightCap.width,
+      y: 0,
+      width: rightCap.width,
+      height: Math.min(cy, rightCap.height),
+    }, time)
+    if (layer) layers.push(layer)
+  }
+
+  return layers
+}
+
+/**
+ * Layers for a horizontal Slider: background and end caps across the piece,
+ * with the thumb placed at the current value
+ */
+export function getSliderLayers(
+  templates: TemplateLibrary,
+  slider: Slider,
+  time = 0
+): TextureLayer[] {
+  const template = resolveSliderTemplate(templates, slider)
+  if (!template) return []
+
+  const { cx, cy } = slider.size
+  const layers: TextureLayer[] = []
+
+  // Parts keep their texture height and are centred on the piece
+  const addLayer = (name: string | undefined, key: string, x: number, width?: number) => {
+    const size = getAnimationSize(templates, name, time)
+    if (!size) return
+    const height = Math.min(cy, size.height)
+    const layer = getAnimationLayer(templates, name, key, {
+      x,
+      y: Math.round((cy - height) / 2),
+      width: width ?? size.width,
+      height,
+    }, time)
+    if (layer) layers.push(layer)
+  }
+
+  const leftCap = getAnimationSize(templates, template.endCapLeft, time)?.width ?? 0
+  const rightCap = getAnimationSize(templates, template.endCapRight, time)?.width ?? 0
+  addLayer(template.background, 'background', leftCap, cx - leftCap - rightCap)
+  addLayer(template.endCapLeft, 'endCapLeft', 0)
+  addLayer(template.endCapRight, 'endCapRight', cx - rightCap)
+
+  const thumb = resolveButtonDrawTemplate(templates, template.thumb)?.normal
+  const thumbWidth = getAnimationSize(templates, thumb, time)?.width ?? 0
+  const min = slider.minValue ?? 0
+  const max = slider.maxValue ?? 100
+  const fraction = max > min ? Math.max(0, Math.min(1, ((slider.currentValue ?? min) - min) / (max - min))) : 0
+  addLayer(thumb, 'thumb', leftCap + Math.round((cx - leftCap - rightCap - thumbWidth) * fraction))
+
+  return layers
+}
+
+/**
+ * Layers for a SpellGem: background under the holder, both at their natural
+ * size from the piece's corner
+ */
+export function getSpellGemLayers(
+  templates: TemplateLibrary,
+  spellGem: SpellGem,
+  time = 0
+): TextureLayer[] {
+  const template = resolveSpellGemTemplate(templates, spellGem)
+  if (!template) return []
+
+  const layers: TextureLayer[] = []
+  for (const [name, key] of [[template.background, 'background'], [template.holder, 'holder']] as const) {
+    const size = getAnimationSize(templates, name, time)
+    if (!size) continue
+    const layer = getAnimationLayer(templates, name, key, {
+      x: 0,
+      y: 0,
+      width: Math.min(spellGem.size.cx, size.width),
+      height: Math.min(spellGem.size.cy, size.height),
+    }, time)
+    if (layer) layers.push(layer)
+  }
+  return layers
+}
+
+/**
+ * Layers for a StaticAnimation: its current frame stretched to the piece
+ */
+export function getStaticAnimationLayers(
+  templates: TemplateLibrary,
+  piece: StaticAnimation,
+  time = 0
+): TextureLayer[] {
+  const layer = getAnimationLayer(
+    templates,
+    piece.animation,
+    'animation',
+    { x: 0, y: 0, width: piece.size.cx, height: piece.size.cy },
+    time
+  )
+  return layer ? [layer] : []
+}
+
+/**
+ * Resolve any screen piece to the texture layers that represent it.
+ * Returns an empty list when the piece has no resolvable art.
+ */
+export function getPieceTextureLayers(
+  templates: TemplateLibrary,
+  piece: ScreenPiece,
+  options: TextureLayerOptions = {}
+): TextureLayer[] {
+  const time = options.time ?? 0
+  const windowLayers = getWindowLayers(templates, piece, time)
+
+  switch (piece.type) {
+    case 'Button':
+      return [...windowLayers, ...getButtonLayers(templates, piece as Button, options.buttonState, time)]
+    case 'Gauge':
+      return [...windowLayers, ...getGaugeLayers(templates, piece as Gauge, options.gaugeFill, time)]
+    case 'Slider':
+      return [...windowLayers, ...getSliderLayers(templates, piece as Slider, time)]
+    case 'SpellGem':
+      return [...windowLayers, ...getSpellGemLayers(templates, piece as SpellGem, time)]
+    case 'StaticAnimation':
+      return [...windowLayers, ...getStaticAnimationLayers(templates, piece as StaticAnimation, time)]
+    case 'StaticFrame':
+      return [...windowLayers, ...getStaticFrameLayers(templates, piece as StaticFrame, time)]
+    default:
+      return windowLayers
+  }
+}
+
+/**
+ * Check whether any animation used by a piece cycles through several frames
+ */
+export function isPieceAnimated(templates: TemplateLibrary, piece: ScreenPiece): boolean {
+  const names: (string | undefined)[] = []
+
+  if (piece.type === 'StaticAnimation') {
+    names.push((piece as StaticAnimation).animation)
+  } else if (piece.type === 'Button') {
+    const template = resolveButtonTemplate(templates, piece as Button)
+    if (template) names.push(template.normal, template.normalDecal)
+  } else if (piece.type === 'Gauge') {
+    const template = resolveGaugeTemplate(templates, piece as Gauge)
+    if (template) names.push(template.background, template.fill, template.lines)
+  } else if (piece.type === 'Slider') {
+    const template = resolveSliderTemplate(templates, piece as Slider)
+    if (template) names.push(template.background, resolveButtonDrawTemplate(templates, template.thumb)?.normal)
+  } else if (piece.type === 'SpellGem') {
+    const template = resolveSpellGemTemplate(templates, piece as SpellGem)
+    if (template) names.push(template.background, template.holder)
+  }
+
+  return names.some((name) => {
+    const animation = resolveAnimation(templates, name)
+    return !!animation && animation.cycle && animation.frames.length > 1
+  })
+}
@@ -0,0 +1,5 @@
+/**
+ * Renderer module exports
+ */
+
+export * from './TemplateResolver'
@@ -0,0 +1,168 @@
+/**
+ * Property Bindings
+ *
+ * Connects SIDL property definitions to the editor's ScreenPiece model:
+ * which widget edits a property and where its value is stored.
+ */
+
+import type { PropertyDefinition } from '@/core/parser/SidlParser'
+import type { ScreenPiece, StyleFlags } from '@/models/elements/ScreenPiece'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+
+/** Kind of editor widget for a property */
+export type PropertyWidget =
+  | 'boolean'
+  | 'integer'
+  | 'string'
+  | 'rgb'
+  | 'point'
+  | 'size'
+  | 'reference' // Named item of another type
+  | 'list' // Repeated property, e.g. Pieces or Columns
+  | 'complex' // Compound type without a dedicated widget
+
+/** A SIDL property resolved against the model */
+export interface PropertyBinding {
+  definition: PropertyDefinition
+  widget: PropertyWidget
+  path: string[] | null // Model path, or null when the model doesn't store it
+  referenceType?: string // Target ElementType for reference widgets
+}
+
+/** Template library map holding the items of each referencable type */
+export const REFERENCE_LIBRARIES: Record<string, keyof TemplateLibrary> = {
+  TextureInfo: 'textures',
+  Ui2DAnimation: 'animations',
+  FrameTemplate: 'frameTemplates',
+  ButtonDrawTemplate: 'buttonTemplates',
+  GaugeDrawTemplate: 'gaugeTemplates',
+  SliderDrawTemplate: 'sliderTemplates',
+  ScrollbarDrawTemplate: 'scrollbarTemplates',
+  SpellGemDrawTemplate: 'spellGemTemplates',
+  WindowDrawTemplate: 'windowTemplates',
+}
+
+/** SIDL names whose model field isn't the name in camelCase */
+const RENAMED_PROPERTIES: Record<string, string> = {
+  ScreenID: 'screenId',
+  EQType: 'eqType',
+  TooltipReference: 'tooltip',
+  Checkbox: 'isCheckbox',
+}
+
+/** Style_* flags kept in the piece's style object */
+const STYLE_FLAGS: Record<string, keyof StyleFlags> = {
+  Style_Transparent: 'transparent',
+  Style_Border: 'border',
+  Style_Titlebar: 'titlebar',
+  Style_Closebox: 'closebox',
+  Style_Minimizebox: 'minimizebox',
+  Style_Tilebox: 'tilebox',
+  Style_Sizable: 'sizable',
+  Style_EscapeClose: 'escapeClose',
+  Style_Checkbox: 'checkbox',
+  Style_VScroll: 'vScroll',
+  Style_HScroll: 'hScroll',
+}
+
+/** Model fields the parser reads and the serializer writes */
+const MODEL_FIELDS = new Set([
+  // ScreenPiece
+  'screenId', 'font', 'relativePosition', 'location', 'size', 'autoStretch',
+  'topAnchorToTop', 'bottomAnchorToTop', 'leftAnchorToLeft', 'rightAnchorToLeft',
+  'topAnchorOffset', 'bottomAnchorOffset', 'leftAnchorOffset', 'rightAnchorOffset',
+  'text', 'textColor', 'tooltip', 'drawTemplate', 'eqType',
+  // Controls
+  'buttonDrawTemplate', 'normalTexture', 'pressedTexture', 'flybyTexture', 'disabledTexture',
+  'decalOffset', 'decalSize', 'isCheckbox', 'checked', 'radioGroup',
+  'gaugeDrawTemplate', 'fillTint', 'linesFillTint', 'orientation',
+  'noWrap', 'alignCenter', 'alignRight',
+  'maxChars', 'password', 'multiline', 'autoVScroll',
+  'invSlot', 'bagSlot', 'spellSlot', 'spellGemDrawTemplate', 'buttonIndex',
+  'animation', 'frameTemplate', 'tabText', 'tabHeight', 'maxLines',
+  'spacing', 'secondarySpacing', 'horizontalFirst', 'anchorToTop', 'anchorToLeft',
+  'firstPieceTemplate', 'snapToChildren', 'autoStretchHorizontal', 'autoStretchVertical',
+  'sliderDrawTemplate', 'sliderArt', 'minValue', 'maxValue', 'currentValue', 'pageSize',
+  'rows', 'cols', 'cellWidth', 'cellHeight', 'headerStyle', 'sort', 'highlightColor',
+])
+
+/**
+ * Model path for a SIDL property, or null when the editor doesn't store it
+ */
+export function getPropertyPath(name: string): string[] | null {
+  const flag = STYLE_FLAGS[name]
+  if (flag) return ['style', flag]
+
+  const field = RENAMED_PROPERTIES[name] ?? name.charAt(0).toLowerCase() + name.slice(1)
+  return MODEL_FIELDS.has(field) ? [field] : null
+}
+
+/**
+ * Pick the widget for a property from its SIDL type
+ */
+export function getPropertyWidget(definition: PropertyDefinition): PropertyWidget {
+  const repeated = definition.maxOccurs === '*' || (definition.maxOccurs ?? 1) > 1
+  if (repeated) return 'list'
+
+  switch (definition.type) {
+    case 'boolean': return 'boolean'
+    case 'integer': return 'integer'
+    case 'string': return 'string'
+    case 'RGB': return 'rgb'
+    case 'Point': return 'point'
+    case 'Size': return 'size'
+  }
+
+  // Templates may be written inline, but are usually named references
+  if (definition.isReference || definition.type in REFERENCE_LIBRARIES) return 'reference'
+  return 'complex'
+}
+
+/**
+ * Resolve a SIDL property against the model
+ */
+export function bindProperty(definition: PropertyDefinition): PropertyBinding {
+  const widget = getPropertyWidget(definition)
+  return {
+    definition,
+    widget,
+    path: widget === 'list' ? null : getPropertyPath(definition.name),
+    referenceType: widget === 'reference' ? definition.type : undefined,
+  }
+}
+
+/**
+ * Read a property value from a piece
+ */
+export function getPropertyValue(piece: ScreenPiece, path: string[]): unknown {
+  let value: unknown = piece
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+/**
+ * Build the element update that sets a property value. Nested objects are
+ * copied so the change can be undone by restoring the old top-level value.
+ */
+export function createPropertyUpdate(
+  piece: ScreenPiece,
+  path: string[],
+  value: unknown
+): Partial<ScreenPiece> {
+  const [key, ...rest] = path
+  if (rest.length === 0) {
+    return { [key]: value } as Partial<ScreenPiece>
+  }
+
+  const set = (target: unknown, keys: string[]): Record<string, unknown> => {
+    const copy = { ...(target && typeof target === 'object' ? target : {}) } as Record<string, unknown>
+    const [head, ...tail] = keys
+    copy[head] = tail.length === 0 ? value : set(copy[head], tail)
+    return copy
+  }
+
+  return { [key]: set((piece as unknown as Record<string, unknown>)[key], rest) } as Partial<ScreenPiece>
+}
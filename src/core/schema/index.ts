@@ -0,0 +1,5 @@
+/**
+ * Schema module exports
+ */
+
+export * from './PropertyBindings'
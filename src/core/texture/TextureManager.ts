@@ -2,10 +2,10 @@
  * TextureManager
  *
  * Handles loading, caching, and managing texture files.
- * Supports TGA, PNG, JPG, and other common image formats.
+ * Supports TGA, DDS, PNG, JPG, and other common image formats.
  */
 
-import type { Size, Point } from '@/models/base/Primitives'
+import type { Size, Point, RGB } from '@/models/base/Primitives'
 
 /**
  * Custom TGA decoder for EverQuest texture files
@@ -161,6 +161,349 @@ function decodeTgaCustom(data: Uint8Array): { width: number; height: number; dat
   return { width, height, data: pixels }
 }
 
+// DDS pixel format flags
+const DDPF_ALPHAPIXELS = 0x1
+const DDPF_FOURCC = 0x4
+const DDPF_PALETTEINDEXED8 = 0x20
+const DDPF_RGB = 0x40
+const DDPF_LUMINANCE = 0x20000
+const DDSD_PITCH = 0x8
+
+// DXGI formats accepted from a DX10 extended header
+const DXGI_BC1 = [71, 72]
+const DXGI_BC2 = [74, 75]
+const DXGI_BC3 = [77, 78]
+const DXGI_RGBA8 = [28, 29]
+const DXGI_BGRA8 = [87, 91]
+
+function fourCC(value: string): number {
+  return (
+    value.charCodeAt(0) |
+    (value.charCodeAt(1) << 8) |
+    (value.charCodeAt(2) << 16) |
+    (value.charCodeAt(3) << 24)
+  ) >>> 0
+}
+
+/**
+ * Expand a 5:6:5 color to 8-bit RGB
+ */
+function unpack565(color: number): [number, number, number] {
+  const r = (color >> 11) & 0x1f
+  const g = (color >> 5) & 0x3f
+  const b = color & 0x1f
+  return [(r << 3) | (r >> 2), (g << 2) | (g >> 4), (b << 3) | (b >> 2)]
+}
+
+/**
+ * Decode the 8-byte color part of a BC1/BC2/BC3 block into a 16-pixel RGBA block.
+ * BC1 blocks with color0 <= color1 use 3 colors plus transparent black.
+ */
+function decodeColorBlock(view: DataView, offset: number, out: Uint8Array, allowPunchThrough: boolean): void {
+  const c0 = view.getUint16(offset, true)
+  const c1 = view.getUint16(offset + 2, true)
+  const bits = view.getUint32(offset + 4, true)
+
+  const [r0, g0, b0] = unpack565(c0)
+  const [r1, g1, b1] = unpack565(c1)
+  const palette = [
+    [r0, g0, b0, 255],
+    [r1, g1, b1, 255],
+  ]
+
+  if (c0 > c1 || !allowPunchThrough) {
+    palette.push(
+      [(2 * r0 + r1) / 3, (2 * g0 + g1) / 3, (2 * b0 + b1) / 3, 255],
+      [(r0 + 2 * r1) / 3, (g0 + 2 * g1) / 3, (b0 + 2 * b1) / 3, 255]
+    )
+  } else {
+    palette.push([(r0 + r1) / 2, (g0 + g1) / 2, (b0 + b1) / 2, 255], [0, 0, 0, 0])
+  }
+
+  for (let i = 0; i < 16; i++) {
+    const color = palette[(bits >> (i * 2)) & 0x3]
+    out.set(color.map(Math.round), i * 4)
+  }
+}
+
+/**
+ * Decode the explicit 4-bit alpha of a BC2 block into the block's alpha channel
+ */
+function decodeExplicitAlpha(data: Uint8Array, offset: number, out: Uint8Array): void {
+  for (let i = 0; i < 16; i++) {
+    const byte = data[offset + (i >> 1)]
+    const alpha = i & 1 ? byte >> 4 : byte & 0x0f
+    out[i * 4 + 3] = alpha * 17
+  }
+}
+
+/**
+ * Decode the interpolated alpha of a BC3 block into the block's alpha channel
+ */
+function decodeInterpolatedAlpha(data: Uint8Array, offset: number, out: Uint8Array): void {
+  const a0 = data[offset]
+  const a1 = data[offset + 1]
+  const palette = [a0, a1]
+
+  if (a0 > a1) {
+    for (let i = 1; i < 7; i++) palette.push(Math.round(((7 - i) * a0 + i * a1) / 7))
+  } else {
+    for (let i = 1; i < 5; i++) palette.push(Math.round(((5 - i) * a0 + i * a1) / 5))
+    palette.push(0, 255)
+  }
+
+  // 16 3-bit indices packed little-endian into 6 bytes
+  let bits = 0
+  let bitCount = 0
+  let byteIndex = offset + 2
+  for (let i = 0; i < 16; i++) {
+    if (bitCount < 3) {
+      bits |= data[byteIndex++] << bitCount
+      bitCount += 8
+    }
+    out[i * 4 + 3] = palette[bits & 0x7]
+    bits >>= 3
+    bitCount -= 3
+  }
+}
+
+/**
+ * Decode BC1/BC2/BC3 block-compressed pixel data
+ */
+function decodeBlockCompressed(
+  data: Uint8Array,
+  offset: number,
+  width: number,
+  height: number,
+  format: 'DXT1' | 'DXT3' | 'DXT5'
+): Uint8ClampedArray {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const blockSize = format === 'DXT1' ? 8 : 16
+  const blocksWide = Math.max(1, Math.ceil(width / 4))
+  const blocksHigh = Math.max(1, Math.ceil(height / 4))
+
+  if (offset + blocksWide * blocksHigh * blockSize > data.length) {
+    throw new Error(`Truncated ${format} data`)
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  const block = new Uint8Array(64)
+
+  for (let by = 0; by < blocksHigh; by++) {
+    for (let bx = 0; bx < blocksWide; bx++) {
+      if (format === 'DXT1') {
+        decodeColorBlock(view, offset, block, true)
+      } else {
+        decodeColorBlock(view, offset + 8, block, false)
+        if (format === 'DXT3') {
+          decodeExplicitAlpha(data, offset, block)
+        } else {
+          decodeInterpolatedAlpha(data, offset, block)
+        }
+      }
+      offset += blockSize
+
+      // Copy the 4x4 block, clipping at the image edge
+      for (let py = 0; py < 4; py++) {
+        const y = by * 4 + py
+        if (y >= height) break
+        for (let px = 0; px < 4; px++) {
+          const x = bx * 4 + px
+          if (x >= width) break
+          const src = (py * 4 + px) * 4
+          const dst = (y * width + x) * 4
+          pixels[dst] = block[src]
+          pixels[dst + 1] = block[src + 1]
+          pixels[dst + 2] = block[src + 2]
+          pixels[dst + 3] = block[src + 3]
+        }
+      }
+    }
+  }
+
+  return pixels
+}
+
+/**
+ * Read one channel from a packed pixel using its bit mask, scaled to 0-255
+ */
+function extractChannel(pixel: number, mask: number): number {
+  if (mask === 0) return 0
+  let shift = 0
+  while (((mask >>> shift) & 1) === 0) shift++
+  const max = mask >>> shift
+  return Math.round((((pixel & mask) >>> shift) * 255) / max)
+}
+
+/**
+ * Decode uncompressed RGB/RGBA/luminance pixel data described by bit masks
+ */
+function decodeUncompressed(
+  data: Uint8Array,
+  offset: number,
+  width: number,
+  height: number,
+  pitch: number,
+  bitCount: number,
+  masks: { r: number; g: number; b: number; a: number },
+  luminance: boolean
+): Uint8ClampedArray {
+  const bytesPerPixel = bitCount / 8
+  if (![1, 2, 3, 4].includes(bytesPerPixel)) {
+    throw new Error(`Unsupported DDS bit count: ${bitCount}`)
+  }
+  if (offset + pitch * (height - 1) + width * bytesPerPixel > data.length) {
+    throw new Error('Truncated DDS pixel data')
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    let src = offset + y * pitch
+    for (let x = 0; x < width; x++) {
+      let pixel = 0
+      for (let i = 0; i < bytesPerPixel; i++) {
+        pixel |= data[src + i] << (i * 8)
+      }
+      pixel >>>= 0
+      src += bytesPerPixel
+
+      const dst = (y * width + x) * 4
+      if (luminance) {
+        const l = extractChannel(pixel, masks.r)
+        pixels[dst] = l
+        pixels[dst + 1] = l
+        pixels[dst + 2] = l
+      } else {
+        pixels[dst] = extractChannel(pixel, masks.r)
+        pixels[dst + 1] = extractChannel(pixel, masks.g)
+        pixels[dst + 2] = extractChannel(pixel, masks.b)
+      }
+      pixels[dst + 3] = masks.a ? extractChannel(pixel, masks.a) : 255
+    }
+  }
+
+  return pixels
+}
+
+/**
+ * Decode 8-bit palette-indexed pixel data (256 RGBA palette entries, then indices)
+ */
+function decodePaletted(data: Uint8Array, offset: number, width: number, height: number): Uint8ClampedArray {
+  const paletteOffset = offset
+  offset += 256 * 4
+  if (offset + width * height > data.length) {
+    throw new Error('Truncated DDS pixel data')
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const entry = paletteOffset + data[offset + i] * 4
+    pixels[i * 4] = data[entry]
+    pixels[i * 4 + 1] = data[entry + 1]
+    pixels[i * 4 + 2] = data[entry + 2]
+    pixels[i * 4 + 3] = data[entry + 3]
+  }
+  return pixels
+}
+
+/**
+ * DDS decoder for EverQuest texture files
+ * Handles DXT1/DXT3/DXT5 (BC1/BC2/BC3), uncompressed RGB/RGBA and
+ * 8-bit paletted surfaces.
+ * Only the top-level surface is decoded; mipmaps that follow it are skipped.
+ */
+export function decodeDds(data: Uint8Array): { width: number; height: number; data: Uint8ClampedArray } {
+  if (data.length < 128) {
+    throw new Error('Invalid DDS file: too short')
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (view.getUint32(0, true) !== fourCC('DDS ')) {
+    throw new Error('Invalid DDS file: bad magic')
+  }
+
+  // DDS_HEADER (124 bytes) follows the magic
+  const flags = view.getUint32(8, true)
+  const height = view.getUint32(12, true)
+  const width = view.getUint32(16, true)
+  const pitchOrLinearSize = view.getUint32(20, true)
+
+  // DDS_PIXELFORMAT
+  const pfFlags = view.getUint32(80, true)
+  const pfFourCC = view.getUint32(84, true)
+  const bitCount = view.getUint32(88, true)
+  const masks = {
+    r: view.getUint32(92, true),
+    g: view.getUint32(96, true),
+    b: view.getUint32(100, true),
+    a: pfFlags & DDPF_ALPHAPIXELS ? view.getUint32(104, true) : 0,
+  }
+
+  if (width === 0 || height === 0) {
+    throw new Error(`Invalid DDS dimensions: ${width}x${height}`)
+  }
+
+  let offset = 128
+
+  if (pfFlags & DDPF_FOURCC) {
+    let format: 'DXT1' | 'DXT3' | 'DXT5' | undefined
+    let rgba: { r: number; g: number; b: number; a: number } | undefined
+
+    if (pfFourCC === fourCC('DXT1')) format = 'DXT1'
+    else if (pfFourCC === fourCC('DXT2') || pfFourCC === fourCC('DXT3')) format = 'DXT3'
+    else if (pfFourCC === fourCC('DXT4') || pfFourCC === fourCC('DXT5')) format = 'DXT5'
+    else if (pfFourCC === fourCC('DX10')) {
+      // DDS_HEADER_DXT10 (20 bytes) precedes the data
+      if (data.length < 148) throw new Error('Invalid DDS file: truncated DX10 header')
+      const dxgiFormat = view.getUint32(128, true)
+      offset += 20
+
+      if (DXGI_BC1.includes(dxgiFormat)) format = 'DXT1'
+      else if (DXGI_BC2.includes(dxgiFormat)) format = 'DXT3'
+      else if (DXGI_BC3.includes(dxgiFormat)) format = 'DXT5'
+      else if (DXGI_RGBA8.includes(dxgiFormat)) {
+        rgba = { r: 0x000000ff, g: 0x0000ff00, b: 0x00ff0000, a: 0xff000000 }
+      } else if (DXGI_BGRA8.includes(dxgiFormat)) {
+        rgba = { r: 0x00ff0000, g: 0x0000ff00, b: 0x000000ff, a: 0xff000000 }
+      } else {
+        throw new Error(`Unsupported DDS DXGI format: ${dxgiFormat}`)
+      }
+    }
+
+    if (format) {
+      return { width, height, data: decodeBlockCompressed(data, offset, width, height, format) }
+    }
+    if (rgba) {
+      const pixels = decodeUncompressed(data, offset, width, height, width * 4, 32, rgba, false)
+      return { width, height, data: pixels }
+    }
+
+    const code = String.fromCharCode(
+      pfFourCC & 0xff,
+      (pfFourCC >> 8) & 0xff,
+      (pfFourCC >> 16) & 0xff,
+      (pfFourCC >> 24) & 0xff
+    )
+    throw new Error(`Unsupported DDS compression: ${code}`)
+  }
+
+  if (pfFlags & (DDPF_RGB | DDPF_LUMINANCE)) {
+    // Rows are packed unless the header specifies a larger pitch
+    const rowBytes = Math.ceil((width * bitCount) / 8)
+    const pitch = flags & DDSD_PITCH && pitchOrLinearSize >= rowBytes ? pitchOrLinearSize : rowBytes
+    const luminance = (pfFlags & DDPF_LUMINANCE) !== 0
+    const pixels = decodeUncompressed(data, offset, width, height, pitch, bitCount, masks, luminance)
+    return { width, height, data: pixels }
+  }
+
+  if (pfFlags & DDPF_PALETTEINDEXED8) {
+    return { width, height, data: decodePaletted(data, offset, width, height) }
+  }
+
+  throw new Error(`Unsupported DDS pixel format flags: 0x${pfFlags.toString(16)}`)
+}
+
 /** Loaded texture data */
 export interface TextureData {
   name: string
@@ -170,6 +513,7 @@ export interface TextureData {
   imageData: ImageData
   canvas: HTMLCanvasElement // Pre-rendered canvas for performance
   image: HTMLImageElement // For Konva Image nodes
+  source: Blob // Original file in its own format, kept for export
 }
 
 /** Frame region within a texture */
@@ -182,6 +526,8 @@ export interface FrameRegion {
 class TextureManagerClass {
   private textures: Map<string, TextureData> = new Map()
   private loading: Map<string, Promise<TextureData>> = new Map()
+  private tinted: Map<string, HTMLCanvasElement> = new Map()
+  private regions: Map<string, HTMLCanvasElement> = new Map()
 
   /**
    * Load a texture from a File object
@@ -220,6 +566,8 @@ class TextureManagerClass {
 
     if (extension === 'tga') {
       return this.loadTga(file, name)
+    } else if (extension === 'dds') {
+      return this.loadDds(file, name)
     } else {
       return this.loadStandardImage(file, name)
     }
@@ -230,12 +578,28 @@ class TextureManagerClass {
    */
   private async loadTga(file: File, name: string): Promise<TextureData> {
     const arrayBuffer = await file.arrayBuffer()
-    const uint8Array = new Uint8Array(arrayBuffer)
+    return this.createFromPixels(name, file, decodeTgaCustom(new Uint8Array(arrayBuffer)))
+  }
 
-    const decoded = decodeTgaCustom(uint8Array)
+  /**
+   * Load DDS file using custom decoder
+   */
+  private async loadDds(file: File, name: string): Promise<TextureData> {
+    const arrayBuffer = await file.arrayBuffer()
+    return this.createFromPixels(name, file, decodeDds(new Uint8Array(arrayBuffer)))
+  }
+
+  /**
+   * Build texture data from decoded RGBA pixels
+   */
+  private async createFromPixels(
+    name: string,
+    file: File,
+    decoded: { width: number; height: number; data: Uint8ClampedArray }
+  ): Promise<TextureData> {
     const { width, height, data } = decoded
 
-    // Create ImageData from decoded TGA
+    // Create ImageData from decoded pixels
     const imageData = new ImageData(data, width, height)
 
     // Create canvas for rendering
@@ -256,6 +620,7 @@ class TextureManagerClass {
       imageData,
       canvas,
       image,
+      source: file,
     }
   }
 
@@ -288,6 +653,7 @@ class TextureManagerClass {
           imageData,
           canvas,
           image: img,
+          source: file,
         })
       }
 
@@ -360,6 +726,58 @@ class TextureManagerClass {
     return canvas
   }
 
+  /**
+   * Get a copy of a texture multiplied by a tint color (cached)
+   */
+  getTinted(textureName: string, tint: RGB): HTMLCanvasElement | null {
+    const texture = this.textures.get(textureName)
+    if (!texture) return null
+
+    const key = `${textureName}|${tint.r},${tint.g},${tint.b}`
+    const cached = this.tinted.get(key)
+    if (cached) return cached
+
+    const canvas = document.createElement('canvas')
+    canvas.width = texture.width
+    canvas.height = texture.height
+
+    const ctx = canvas.getContext('2d')!
+    ctx.drawImage(texture.canvas, 0, 0)
+    ctx.globalCompositeOperation = 'multiply'
+    ctx.fillStyle = `rgb(${tint.r}, ${tint.g}, ${tint.b})`
+    ctx.fillRect(0, 0, texture.width, texture.height)
+    // Multiply fills transparent pixels too, so restore the original alpha
+    ctx.globalCompositeOperation = 'destination-in'
+    ctx.drawImage(texture.canvas, 0, 0)
+
+    this.tinted.set(key, canvas)
+    return canvas
+  }
+
+  /**
+   * Get a frame region as its own canvas, e.g. for pattern fills (cached)
+   */
+  getRegion(textureName: string, region: FrameRegion, tint?: RGB): HTMLCanvasElement | null {
+    const tintKey = tint ? `${tint.r},${tint.g},${tint.b}` : ''
+    const { location, size } = region
+    const key = `${textureName}|${location.x},${location.y},${size.cx},${size.cy}|${tintKey}`
+    const cached = this.regions.get(key)
+    if (cached) return cached
+
+    const source = tint ? this.getTinted(textureName, tint) : this.textures.get(textureName)?.canvas
+    if (!source || size.cx <= 0 || size.cy <= 0) return null
+
+    const canvas = document.createElement('canvas')
+    canvas.width = size.cx
+    canvas.height = size.cy
+    canvas
+      .getContext('2d')!
+      .drawImage(source, location.x, location.y, size.cx, size.cy, 0, 0, size.cx, size.cy)
+
+    this.regions.set(key, canvas)
+    return canvas
+  }
+
   /**
    * Create an Image element from a frame region
    */
@@ -374,6 +792,8 @@ class TextureManagerClass {
    */
   clear(): void {
     this.textures.clear()
+    this.tinted.clear()
+    this.regions.clear()
   }
 
   /**
@@ -381,6 +801,13 @@ class TextureManagerClass {
    */
   remove(name: string): void {
     this.textures.delete(name)
+    for (const cache of [this.tinted, this.regions]) {
+      for (const key of cache.keys()) {
+        if (key.startsWith(`${name}|`)) {
+          cache.delete(key)
+        }
+      }
+    }
   }
 
   /**
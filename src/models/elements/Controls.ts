@@ -4,6 +4,7 @@
 
 import type { Point, Size, RGB } from '../base/Primitives'
 import type { ScreenPiece } from './ScreenPiece'
+import type { ButtonDrawTemplate, GaugeDrawTemplate, SliderDrawTemplate, SpellGemDrawTemplate } from './Templates'
 import { createDefaultScreenPiece, generateId } from './ScreenPiece'
 
 /** Screen - Top-level window container */
@@ -17,6 +18,7 @@ export interface Screen extends ScreenPiece {
 /** Button control */
 export interface Button extends ScreenPiece {
   type: 'Button'
+  buttonDrawTemplate?: ButtonDrawTemplate | string // Inline template or named reference
   normalTexture?: string
   pressedTexture?: string
   flybyTexture?: string
@@ -28,14 +30,14 @@ export interface Button extends ScreenPiece {
   soundFlyby?: string
   isCheckbox?: boolean
   checked?: boolean
-  radioGroup?: number
+  radioGroup?: string // Name shared by the buttons of one group
 }
 
 /** Gauge (progress bar) control */
 export interface Gauge extends ScreenPiece {
   type: 'Gauge'
   eqType?: number // EQ data binding (1=HP, 2=Mana, etc.)
-  gaugeDrawTemplate?: string
+  gaugeDrawTemplate?: GaugeDrawTemplate | string // Inline template or named reference
   fillTint?: RGB
   linesFillTint?: RGB
   orientation?: 'horizontal' | 'vertical'
@@ -77,7 +79,8 @@ export interface ListboxColumn {
 /** Slider control */
 export interface Slider extends ScreenPiece {
   type: 'Slider'
-  sliderDrawTemplate?: string
+  sliderDrawTemplate?: SliderDrawTemplate | string // Inline template or named reference
+  sliderArt?: string // SliderDrawTemplate reference, as shipped files name it
   orientation?: 'horizontal' | 'vertical'
   minValue?: number
   maxValue?: number
@@ -121,7 +124,7 @@ export interface InvSlot extends ScreenPiece {
 export interface SpellGem extends ScreenPiece {
   type: 'SpellGem'
   spellSlot?: number
-  spellGemDrawTemplate?: string
+  spellGemDrawTemplate?: SpellGemDrawTemplate | string // Inline template or named reference
 }
 
 /** HotButton (hotbar button) */
@@ -279,6 +282,10 @@ export function isListbox(piece: ScreenPiece): piece is Listbox {
   return piece.type === 'Listbox'
 }
 
+export function isStaticAnimation(piece: ScreenPiece): piece is StaticAnimation {
+  return piece.type === 'StaticAnimation'
+}
+
 /** Factory functions */
 export function createScreen(screenId: string): Screen {
   return {
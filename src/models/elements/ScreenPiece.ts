@@ -23,6 +23,32 @@ export interface StyleFlags {
   ignoreClick?: boolean
 }
 
+/** A <Pieces> or <Pages> reference to a named piece definition */
+export interface PieceReference {
+  tag: 'Pieces' | 'Pages'
+  name: string // Item name of the definition
+  text: string // Reference as written, e.g. "Page:OW_StatsPage"
+  index?: number // Unresolved only: how many of the piece's children came before it
+}
+
+/** An XML element kept verbatim because the editor doesn't model it */
+export interface RawElement {
+  name: string
+  attributes?: Record<string, string>
+  text?: string // Text content of an element without child elements
+  children?: RawElement[]
+}
+
+/** An unmodeled property of a piece and where it appeared */
+export interface RawProperty extends RawElement {
+  // Tag of the property it followed in the source, or null when it came
+  // first. Unset for properties added in the editor, which are written last.
+  after?: string | null
+  // Tags before that one in the source, nearest first, for when `after` is
+  // a default the serializer leaves out
+  earlier?: string[]
+}
+
 /** Base interface for all screen pieces */
 export interface ScreenPiece {
   // Identity
@@ -67,14 +93,23 @@ export interface ScreenPiece {
   snapToChildren?: boolean
   isReferenced?: boolean // True if this piece is used as a child of another piece
   columns?: number[]
+  columnHeadings?: string[] // Listbox column headings, parallel to columns
 
   // Template references
   drawTemplate?: string
 
+  // Properties the editor doesn't model, in source order
+  rawProperties?: RawProperty[]
+
   // Hierarchy
   children: ScreenPiece[]
   parentId?: string // Reference to parent's id
 
+  // Shared definitions
+  reference?: PieceReference // Set when this child was instantiated from a reference
+  sourceId?: string // Id of the definition piece this copy mirrors
+  unresolvedReferences?: PieceReference[] // References whose definition was not found
+
   // Source tracking
   sourceFile?: string // Which EQUI file this came from
 }
@@ -122,10 +157,35 @@ export function cloneScreenPiece(piece: ScreenPiece): ScreenPiece {
     textColor: piece.textColor ? { ...piece.textColor } : undefined,
     disabledColor: piece.disabledColor ? { ...piece.disabledColor } : undefined,
     style: { ...piece.style },
+    rawProperties: piece.rawProperties?.map(cloneRawElement),
     children: piece.children.map(cloneScreenPiece),
   }
 }
 
+/** Clone a raw element (deep copy) */
+export function cloneRawElement<T extends RawElement>(element: T): T {
+  return {
+    ...element,
+    attributes: element.attributes ? { ...element.attributes } : undefined,
+    children: element.children?.map(cloneRawElement),
+  }
+}
+
+/**
+ * Detach a copy from the definition it was instantiated from, so it is
+ * exported inline. References nested inside it stay linked.
+ */
+export function detachScreenPiece(piece: ScreenPiece): void {
+  piece.reference = undefined
+  const unlink = (node: ScreenPiece): void => {
+    node.sourceId = undefined
+    for (const child of node.children) {
+      if (!child.reference) unlink(child)
+    }
+  }
+  unlink(piece)
+}
+
 /** Check if element contains a point (for hit testing) */
 export function containsPoint(piece: ScreenPiece, point: Point): boolean {
   const { x, y } = piece.location
@@ -2,7 +2,7 @@
  * Draw template types for visual styling
  */
 
-import type { Point, Size } from '../base/Primitives'
+import type { Point, Size, RGB } from '../base/Primitives'
 
 /** TextureInfo - Reference to an external image file */
 export interface TextureInfo {
@@ -25,6 +25,7 @@ export interface Ui2DAnimation {
   item: string
   cycle: boolean // Loop animation
   grid?: boolean // Use grid layout
+  vertical?: boolean // Grid cells run top-to-bottom
   rows?: number
   cols?: number
   cellWidth?: number
@@ -60,6 +61,12 @@ export interface FrameTemplate {
   bottomLeftOverlapY?: number
   bottomRightOverlapX?: number
   bottomRightOverlapY?: number
+
+  // How far the frame overlaps the content area on each side
+  overlapLeft?: number
+  overlapTop?: number
+  overlapRight?: number
+  overlapBottom?: number
 }
 
 /** ButtonDrawTemplate - Visual states for buttons */
@@ -72,6 +79,7 @@ export interface ButtonDrawTemplate {
   flyby?: string // Hover state
   disabled?: string
   pressedFlyby?: string
+  pressedDisabled?: string
 
   // Decal overlays
   normalDecal?: string
@@ -79,6 +87,7 @@ export interface ButtonDrawTemplate {
   flybyDecal?: string
   disabledDecal?: string
   pressedFlybyDecal?: string
+  pressedDisabledDecal?: string
 }
 
 /** GaugeDrawTemplate - Visual elements for progress bars */
@@ -98,13 +107,11 @@ export interface GaugeDrawTemplate {
 export interface SliderDrawTemplate {
   item: string
 
-  // Slider components
+  // Slider components (Ui2DAnimation references)
   background?: string
-  thumb?: string
-  thumbHover?: string
+  thumb?: ButtonDrawTemplate | string // Inline button states or ButtonDrawTemplate reference
   endCapLeft?: string
   endCapRight?: string
-  trackFill?: string
 }
 
 /** ScrollbarDrawTemplate - Visual elements for scrollbars */
@@ -113,11 +120,23 @@ export interface ScrollbarDrawTemplate {
 
   // Scrollbar components
   background?: string
-  thumb?: string
-  upButton?: ButtonDrawTemplate | string
-  downButton?: ButtonDrawTemplate | string
-  leftButton?: ButtonDrawTemplate | string
-  rightButton?: ButtonDrawTemplate | string
+  thumb?: FrameTemplate | string // Inline frame or FrameTemplate reference
+  upButton?: ButtonDrawTemplate | string // Left button on horizontal scrollbars
+  downButton?: ButtonDrawTemplate | string // Right button on horizontal scrollbars
+
+  // Track between the buttons
+  middleTextureInfo?: string // TextureInfo reference, tiled
+  middleTint?: RGB
+}
+
+/** SpellGemDrawTemplate - Visual elements for spell gems */
+export interface SpellGemDrawTemplate {
+  item: string
+
+  // Gem components (Ui2DAnimation references)
+  background?: string
+  holder?: string // Frame drawn around the spell icon
+  highlight?: string
 }
 
 /** WindowDrawTemplate - Complete window styling */
@@ -125,23 +144,25 @@ export interface WindowDrawTemplate {
   item: string
 
   // Background
-  background?: string // Ui2DAnimation reference
+  background?: string // Ui2DAnimation or TextureInfo reference, tiled
 
   // Titlebar
-  titlebar?: string
+  titlebar?: FrameTemplate | string // Inline frame or FrameTemplate reference
   titlebarHeight?: number
 
-  // Window buttons
-  closeButton?: string // ButtonDrawTemplate reference
-  minimizeButton?: string
-  tileButton?: string
+  // Window buttons (inline or ButtonDrawTemplate reference)
+  closeButton?: ButtonDrawTemplate | string
+  minimizeButton?: ButtonDrawTemplate | string
+  tileButton?: ButtonDrawTemplate | string
+  qmarkButton?: ButtonDrawTemplate | string
+  maximizeButton?: ButtonDrawTemplate | string
 
   // Border/frame
-  border?: string // FrameTemplate reference
+  border?: FrameTemplate | string // Inline frame or FrameTemplate reference
 
-  // Scrollbars
-  verticalScrollbar?: string // ScrollbarDrawTemplate reference
-  horizontalScrollbar?: string
+  // Scrollbars (inline or ScrollbarDrawTemplate reference)
+  verticalScrollbar?: ScrollbarDrawTemplate | string
+  horizontalScrollbar?: ScrollbarDrawTemplate | string
 }
 
 /** Collection of all templates in a project */
@@ -153,6 +174,7 @@ export interface TemplateLibrary {
   gaugeTemplates: Map<string, GaugeDrawTemplate>
   sliderTemplates: Map<string, SliderDrawTemplate>
   scrollbarTemplates: Map<string, ScrollbarDrawTemplate>
+  spellGemTemplates: Map<string, SpellGemDrawTemplate>
   windowTemplates: Map<string, WindowDrawTemplate>
 }
 
@@ -166,6 +188,7 @@ export function createTemplateLibrary(): TemplateLibrary {
     gaugeTemplates: new Map(),
     sliderTemplates: new Map(),
     scrollbarTemplates: new Map(),
+    spellGemTemplates: new Map(),
     windowTemplates: new Map(),
   }
 }
@@ -4,13 +4,43 @@
 
 import type { Screen } from '../elements/Controls'
 import type { TemplateLibrary } from '../elements/Templates'
+import { createTemplateLibrary } from '../elements/Templates'
+
+/**
+ * Where a file comes from in a project layered over a base folder: 'base'
+ * files are read-only fallbacks from the base folder, 'override' files are
+ * the project's own copies of a base file
+ */
+export type FileLayer = 'base' | 'override'
 
 /** A single UI file (EQUI_*.xml) */
 export interface UIFile {
   filename: string // e.g., "EQUI_Inventory.xml"
   screens: Screen[]
+  templates: TemplateLibrary // Template definitions declared in this file
   isDirty: boolean // Has unsaved changes
   originalXml?: string // For preserving comments/formatting
+  layer?: FileLayer // Unset for the project's own files the base doesn't have
+  folder?: string // Option variant folder the file belongs to, e.g. "Chat Windows/Tabs Only"
+}
+
+/** One version of a feature: a subfolder of files that replace the UI's own */
+export interface OptionVariant {
+  name: string // Subfolder name, e.g. "Tabs Only (No Titlebars)"
+  folder: string // Path inside the UI folder, e.g. "Chat Windows/Tabs Only (No Titlebars)"
+  files: UIFile[]
+  textures: string[] // Texture filenames
+}
+
+/**
+ * A feature a UI ships in several versions, such as chat windows with or
+ * without titlebars. The active variant's files stand in for the UI's own
+ * files of the same name; with none active the UI's own files are used.
+ */
+export interface OptionGroup {
+  name: string // Folder name, e.g. "Chat Windows"
+  variants: OptionVariant[]
+  active: string | null // Active variant name
 }
 
 /** Complete UI project */
@@ -20,6 +50,12 @@ export interface UIProject {
   files: UIFile[]
   templates: TemplateLibrary
   basePath?: string // Directory path if loaded from folder
+  includes?: string[] // Include order from the loaded EQUI.xml manifest
+  baseName?: string // Folder files the project doesn't have come from, e.g. "default"
+  optionGroups?: OptionGroup[]
+  replacedFiles?: UIFile[] // The UI's own files while an active variant stands in for them
+  createdAt: string // ISO timestamps
+  modifiedAt: string
 }
 
 /** Project metadata for save/load */
@@ -31,22 +67,51 @@ export interface ProjectMetadata {
   fileCount: number
 }
 
+/** A ruler guide placed on the canvas */
+export interface Guide {
+  id: string
+  orientation: 'horizontal' | 'vertical'
+  position: number // Canvas units, same space as element locations
+}
+
+/** Editor session state stored alongside a project */
+export interface EditorState {
+  activeFile: string | null
+  zoom: number
+  showGrid: boolean
+  showSnapGuides: boolean
+  showTextures: boolean
+  showAnchors: boolean
+  expandedNodes: string[] // Element ids
+  lockedElements: string[] // Element ids
+  guides: Guide[]
+}
+
 /** Create an empty project */
 export function createProject(name = 'Untitled Project'): UIProject {
+  const now = new Date().toISOString()
   return {
     name,
     version: '1.0.0',
     files: [],
-    templates: {
-      textures: new Map(),
-      animations: new Map(),
-      frameTemplates: new Map(),
-      buttonTemplates: new Map(),
-      gaugeTemplates: new Map(),
-      sliderTemplates: new Map(),
-      scrollbarTemplates: new Map(),
-      windowTemplates: new Map(),
-    },
+    createdAt: now,
+    modifiedAt: now,
+    templates: createTemplateLibrary(),
+  }
+}
+
+/** Default editor state for a fresh session */
+export function createEditorState(): EditorState {
+  return {
+    activeFile: null,
+    zoom: 1,
+    showGrid: true,
+    showSnapGuides: true,
+    showTextures: true,
+    showAnchors: true,
+    expandedNodes: [],
+    lockedElements: [],
+    guides: [],
   }
 }
 
@@ -55,6 +120,7 @@ export function createUIFile(filename: string): UIFile {
   return {
     filename,
     screens: [],
+    templates: createTemplateLibrary(),
     isDirty: false,
   }
 }
@@ -64,15 +130,45 @@ export function getProjectMetadata(project: UIProject): ProjectMetadata {
   return {
     name: project.name,
     version: project.version,
-    createdAt: new Date().toISOString(),
-    modifiedAt: new Date().toISOString(),
+    createdAt: project.createdAt,
+    modifiedAt: project.modifiedAt,
     fileCount: project.files.length,
   }
 }
 
+/** Check if a file is a read-only file from the base folder */
+export function isBaseFile(file: UIFile): boolean {
+  return file.layer === 'base'
+}
+
+/** The project's own files, leaving out those from the base folder */
+export function getOwnFiles(project: UIProject): UIFile[] {
+  return project.files.filter((file) => !isBaseFile(file))
+}
+
+/**
+ * Every file in the project: the files in use, then the UI's own files
+ * set aside for a variant and the files of inactive variants
+ */
+export function getAllFiles(project: UIProject): UIFile[] {
+  const files = new Set(project.files)
+  for (const file of project.replacedFiles ?? []) files.add(file)
+  for (const group of project.optionGroups ?? []) {
+    for (const variant of group.variants) {
+      for (const file of variant.files) files.add(file)
+    }
+  }
+  return [...files]
+}
+
+/** The files in use with no option variant active */
+export function getDefaultFiles(project: UIProject): UIFile[] {
+  return [...project.files.filter((file) => !file.folder), ...(project.replacedFiles ?? [])]
+}
+
 /** Check if project has unsaved changes */
 export function hasUnsavedChanges(project: UIProject): boolean {
-  return project.files.some((file) => file.isDirty)
+  return getAllFiles(project).some((file) => file.isDirty)
 }
 
 /** Mark file as dirty (has changes) */
@@ -80,17 +176,96 @@ export function markFileDirty(project: UIProject, filename: string): void {
   const file = project.files.find((f) => f.filename === filename)
   if (file) {
     file.isDirty = true
+    project.modifiedAt = new Date().toISOString()
   }
 }
 
-/** Mark file as clean (saved) */
-export function markFileClean(project: UIProject, filename: string): void {
-  const file = project.files.find((f) => f.filename === filename)
+/**
+ * Mark file as clean (saved). `folder` picks out a variant's copy of the file,
+ * which may be set aside or inactive rather than in use.
+ */
+export function markFileClean(project: UIProject, filename: string, folder?: string): void {
+  const file = getAllFiles(project).find((f) => f.filename === filename && f.folder === folder)
   if (file) {
     file.isDirty = false
   }
 }
 
+/** Where a file in use or a texture comes from after switching variants */
+export interface OptionSource {
+  filename: string
+  folder?: string // Variant folder, unset for the UI's own
+}
+
+/** What switching a variant changed */
+export interface OptionSwitch {
+  files: string[] // Filenames whose file in use changed
+  textures: OptionSource[] // Textures to load, by where they now come from
+}
+
+/**
+ * Make a variant of a group active, or the UI's own files with `variant`
+ * null. Files and textures the old variant replaced fall back to another
+ * active group's variant that has them, else to the UI's own.
+ */
+export function selectOptionVariant(project: UIProject, groupName: string, variant: string | null): OptionSwitch {
+  const groups = project.optionGroups ?? []
+  const group = groups.find((g) => g.name === groupName)
+  if (!group) throw new Error(`No option group named ${groupName}`)
+  const next = variant === null ? null : group.variants.find((v) => v.name === variant)
+  if (next === undefined) throw new Error(`${groupName} has no variant named ${variant}`)
+
+  const previous = group.variants.find((v) => v.name === group.active) ?? null
+  group.active = next?.name ?? null
+  const others = groups
+    .filter((g) => g !== group)
+    .map((g) => g.variants.find((v) => v.name === g.active))
+    .filter((v): v is OptionVariant => !!v)
+
+  const key = (name: string) => name.toLowerCase()
+  const result: OptionSwitch = { files: [], textures: [] }
+
+  // Files: the new variant's, then the fallbacks for those the old one replaced
+  const replaced = project.replacedFiles ?? []
+  const use = (filename: string, file: UIFile | undefined) => {
+    const index = project.files.findIndex((f) => key(f.filename) === key(filename))
+    const current = index >= 0 ? project.files[index] : undefined
+    if (current === file) return
+    if (current && !current.folder) replaced.push(current)
+    if (file && !file.folder) replaced.splice(replaced.indexOf(file), 1)
+
+    if (file && index >= 0) {
+      project.files[index] = file
+    } else if (file) {
+      project.files.push(file)
+    } else if (index >= 0) {
+      project.files.splice(index, 1)
+    }
+    result.files.push(filename)
+  }
+  for (const file of next?.files ?? []) use(file.filename, file)
+  for (const file of previous?.files ?? []) {
+    if (next?.files.some((f) => key(f.filename) === key(file.filename))) continue
+    const fallback =
+      others.flatMap((v) => v.files).find((f) => key(f.filename) === key(file.filename)) ??
+      replaced.find((f) => key(f.filename) === key(file.filename))
+    use(file.filename, fallback)
+  }
+  project.replacedFiles = replaced
+
+  // Textures are swapped by name the same way
+  for (const filename of next?.textures ?? []) {
+    result.textures.push({ filename, folder: next?.folder })
+  }
+  for (const filename of previous?.textures ?? []) {
+    if (next?.textures.some((name) => key(name) === key(filename))) continue
+    const fallback = others.find((v) => v.textures.some((name) => key(name) === key(filename)))
+    result.textures.push({ filename, folder: fallback?.folder })
+  }
+
+  return result
+}
+
 /** Standard EQ UI files that are commonly edited */
 export const COMMON_EQUI_FILES = [
   'EQUI_Inventory.xml',
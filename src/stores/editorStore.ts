@@ -0,0 +1,148 @@
+/**
+ * Editor Store
+ *
+ * View and session state of the editor (zoom, toggles, expanded tree nodes,
+ * locked elements and guides) that is saved with a project file
+ */
+
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { EditorState, Guide } from '@/models/project/Project'
+import { createEditorState } from '@/models/project/Project'
+import { generateId } from '@/models/elements/ScreenPiece'
+
+export const MIN_ZOOM = 0.25
+export const MAX_ZOOM = 4
+
+export const useEditorStore = defineStore('editor', () => {
+  const defaults = createEditorState()
+
+  // State
+  const zoom = ref(defaults.zoom)
+  const showGrid = ref(defaults.showGrid)
+  const showSnapGuides = ref(defaults.showSnapGuides)
+  const showTextures = ref(defaults.showTextures)
+  const showAnchors = ref(defaults.showAnchors)
+  const expandedNodes = ref<Set<string>>(new Set())
+  const lockedElements = ref<Set<string>>(new Set())
+  const guides = ref<Guide[]>([])
+
+  // Getters
+  function isExpanded(id: string): boolean {
+    return expandedNodes.value.has(id)
+  }
+
+  function isLocked(id: string): boolean {
+    return lockedElements.value.has(id)
+  }
+
+  // Actions
+  // Sets are replaced rather than mutated so Vue picks up the change
+
+  function setZoom(value: number): void {
+    zoom.value = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, value))
+  }
+
+  function toggleExpanded(id: string): void {
+    const next = new Set(expandedNodes.value)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    expandedNodes.value = next
+  }
+
+  function expandNodes(ids: string[]): void {
+    expandedNodes.value = new Set([...expandedNodes.value, ...ids])
+  }
+
+  function collapseAll(): void {
+    expandedNodes.value = new Set()
+  }
+
+  function toggleLocked(id: string): void {
+    const next = new Set(lockedElements.value)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    lockedElements.value = next
+  }
+
+  function addGuide(orientation: Guide['orientation'], position: number): Guide {
+    const guide: Guide = { id: generateId(), orientation, position: Math.round(position) }
+    guides.value = [...guides.value, guide]
+    return guide
+  }
+
+  function moveGuide(id: string, position: number): void {
+    guides.value = guides.value.map((g) => (g.id === id ? { ...g, position: Math.round(position) } : g))
+  }
+
+  function removeGuide(id: string): void {
+    guides.value = guides.value.filter((g) => g.id !== id)
+  }
+
+  /**
+   * Snapshot for saving; the active file is tracked by the project store
+   */
+  function getState(activeFile: string | null): EditorState {
+    return {
+      activeFile,
+      zoom: zoom.value,
+      showGrid: showGrid.value,
+      showSnapGuides: showSnapGuides.value,
+      showTextures: showTextures.value,
+      showAnchors: showAnchors.value,
+      expandedNodes: [...expandedNodes.value],
+      lockedElements: [...lockedElements.value],
+      guides: guides.value.map((g) => ({ ...g })),
+    }
+  }
+
+  function restoreState(state: EditorState): void {
+    setZoom(state.zoom)
+    showGrid.value = state.showGrid
+    showSnapGuides.value = state.showSnapGuides
+    showTextures.value = state.showTextures
+    showAnchors.value = state.showAnchors
+    expandedNodes.value = new Set(state.expandedNodes)
+    lockedElements.value = new Set(state.lockedElements)
+    guides.value = state.guides.map((g) => ({ ...g }))
+  }
+
+  function reset(): void {
+    restoreState(createEditorState())
+  }
+
+  return {
+    // State
+    zoom,
+    showGrid,
+    showSnapGuides,
+    showTextures,
+    showAnchors,
+    expandedNodes,
+    lockedElements,
+    guides,
+
+    // Getters
+    isExpanded,
+    isLocked,
+
+    // Actions
+    setZoom,
+    toggleExpanded,
+    expandNodes,
+    collapseAll,
+    toggleLocked,
+    addGuide,
+    moveGuide,
+    removeGuide,
+    getState,
+    restoreState,
+    reset,
+  }
+})
@@ -7,11 +7,15 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { ScreenPiece } from '@/models/elements/ScreenPiece'
-import { cloneScreenPiece, generateId } from '@/models/elements/ScreenPiece'
+import { cloneScreenPiece, detachScreenPiece, generateId } from '@/models/elements/ScreenPiece'
+import { isBaseFile } from '@/models/project/Project'
+import { useProjectStore } from './projectStore'
 
 export const useElementsStore = defineStore('elements', () => {
   // State - flat map for O(1) lookup
   const elements = ref<Map<string, ScreenPiece>>(new Map())
+  // Set while the loaded elements come from a read-only base file; edits are ignored
+  const isReadOnly = ref(false)
 
   // Getters
   const rootElements = computed(() => {
@@ -44,8 +48,16 @@ export const useElementsStore = defineStore('elements', () => {
 
   const elementList = computed(() => [...elements.value.values()])
 
+  // Properties that belong to one instance and are never mirrored to linked copies
+  const instanceKeys = new Set(['id', 'parentId', 'children', 'reference', 'sourceId', 'isReferenced'])
+
   // Actions
+  function setReadOnly(value: boolean): void {
+    isReadOnly.value = value
+  }
+
   function addElement(element: ScreenPiece): void {
+    if (isReadOnly.value) return
     const newMap = new Map(elements.value)
     newMap.set(element.id, element)
 
@@ -69,8 +81,22 @@ export const useElementsStore = defineStore('elements', () => {
 
   function updateElement(id: string, changes: Partial<ScreenPiece>): void {
     const element = elements.value.get(id)
-    if (element) {
+    if (element && !isReadOnly.value) {
       Object.assign(element, changes)
+
+      // Every use of a shared <Pieces> definition shows the same properties,
+      // whichever file it is in
+      const shared = Object.entries(changes).filter(([key]) => !instanceKeys.has(key))
+      if (shared.length > 0) {
+        const projectStore = useProjectStore()
+        for (const { piece, filename } of findLinkedPieces(id)) {
+          for (const [key, value] of shared) {
+            (piece as unknown as Record<string, unknown>)[key] = copyValue(value)
+          }
+          if (filename) projectStore.markFileDirty(filename)
+        }
+      }
+
       // Reassign Map to trigger Vue reactivity
       elements.value = new Map(elements.value)
     }
@@ -78,7 +104,7 @@ export const useElementsStore = defineStore('elements', () => {
 
   function deleteElement(id: string): void {
     const element = elements.value.get(id)
-    if (!element) return
+    if (!element || isReadOnly.value) return
 
     // Collect all IDs to delete (element and all its descendants)
     const idsToDelete = new Set<string>()
@@ -108,7 +134,7 @@ export const useElementsStore = defineStore('elements', () => {
 
   function moveElement(id: string, newParentId: string | null): void {
     const element = elements.value.get(id)
-    if (!element) return
+    if (!element || isReadOnly.value) return
 
     // Remove from old parent
     if (element.parentId) {
@@ -133,10 +159,11 @@ export const useElementsStore = defineStore('elements', () => {
 
   function duplicateElement(id: string): ScreenPiece | null {
     const element = elements.value.get(id)
-    if (!element) return null
+    if (!element || isReadOnly.value) return null
 
     const clone = cloneScreenPiece(element)
     clone.screenId = `${element.screenId}_copy`
+    detachScreenPiece(clone)
 
     // Offset position slightly
     clone.location = {
@@ -156,6 +183,38 @@ export const useElementsStore = defineStore('elements', () => {
     return [...elements.value.values()].filter((el) => el.type === type)
   }
 
+  /**
+   * Get the other pieces that mirror the same definition: the definition
+   * itself and every copy instantiated from a <Pieces>/<Pages> reference,
+   * in the active file or any other editable file of the project
+   */
+  function getLinkedElements(id: string): ScreenPiece[] {
+    return findLinkedPieces(id).map(({ piece }) => piece)
+  }
+
+  // Linked pieces with the file they are in, unset for the active file's
+  function findLinkedPieces(id: string): { piece: ScreenPiece; filename?: string }[] {
+    const element = elements.value.get(id)
+    if (!element) return []
+
+    const linkId = element.sourceId ?? element.id
+    const isLinked = (piece: ScreenPiece) => piece !== element && (piece.sourceId ?? piece.id) === linkId
+    const found: { piece: ScreenPiece; filename?: string }[] = [...elements.value.values()]
+      .filter(isLinked)
+      .map((piece) => ({ piece }))
+
+    const projectStore = useProjectStore()
+    for (const file of projectStore.project.files) {
+      if (file.filename === projectStore.activeFileName || isBaseFile(file)) continue
+      const walk = (piece: ScreenPiece): void => {
+        if (isLinked(piece)) found.push({ piece, filename: file.filename })
+        piece.children.forEach(walk)
+      }
+      file.screens.forEach(walk)
+    }
+    return found
+  }
+
   function getChildren(parentId: string): ScreenPiece[] {
     const parent = elements.value.get(parentId)
     return parent?.children || []
@@ -183,9 +242,21 @@ export const useElementsStore = defineStore('elements', () => {
     elements.value = newMap
   }
 
+  // Deep copy plain values so linked pieces never share nested objects
+  function copyValue<T>(value: T): T {
+    if (Array.isArray(value)) return value.map(copyValue) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, copyValue(item)])
+      ) as T
+    }
+    return value
+  }
+
   return {
     // State
     elements,
+    isReadOnly,
 
     // Getters
     rootElements,
@@ -194,6 +265,7 @@ export const useElementsStore = defineStore('elements', () => {
     elementList,
 
     // Actions
+    setReadOnly,
     addElement,
     addElements,
     updateElement,
@@ -202,6 +274,7 @@ export const useElementsStore = defineStore('elements', () => {
     duplicateElement,
     getElementById,
     getElementsByType,
+    getLinkedElements,
     getChildren,
     clear,
     loadElementTree,
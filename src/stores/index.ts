@@ -8,3 +8,8 @@ export { useSelectionStore } from './selectionStore'
 export { useProjectStore } from './projectStore'
 export { useHistoryStore } from './historyStore'
 export { useTextureStore } from './textureStore'
+export { useEditorStore } from './editorStore'
+export { useProblemsStore } from './problemsStore'
+export { useLintStore } from './lintStore'
+export { useUsagesStore } from './usagesStore'
+export { useLayoutStore } from './layoutStore'
@@ -0,0 +1,158 @@
+/**
+ * Layout Store
+ *
+ * Window positions imported from a UI_<character>_<server>.ini, laid over the
+ * canvas without changing the UI files. Windows moved or resized while the
+ * overlay is shown update it, and the arrangement can be written out as an ini.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, shallowRef, computed } from 'vue'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import {
+  parseUiIni,
+  serializeUiIni,
+  getIniResolutions,
+  readWindowLayouts,
+  writeWindowLayouts,
+  type UiIni,
+  type WindowLayout,
+} from '@/core/ini/UiIni'
+import { useProjectStore } from './projectStore'
+
+/** Name for an exported ini when none was imported */
+const DEFAULT_INI_NAME = 'UI_Character_Server.ini'
+
+export const useLayoutStore = defineStore('layout', () => {
+  const projectStore = useProjectStore()
+
+  // State
+  const ini = shallowRef<UiIni | null>(null)
+  const iniName = ref<string | null>(null)
+  const resolutions = ref<string[]>([]) // Resolutions the ini has positions for
+  const resolution = ref('') // Resolution shown, '' for positions saved without one
+  const windows = shallowRef<Map<string, Partial<WindowLayout>>>(new Map()) // By section name
+  const isEnabled = ref(true)
+
+  // Getters
+  const hasLayout = computed(() => ini.value !== null)
+
+  const isOverlayShown = computed(() => hasLayout.value && isEnabled.value)
+
+  // Section names by lower case; the client matches them ignoring case
+  const windowNames = computed(() => new Map([...windows.value.keys()].map((name) => [name.toLowerCase(), name])))
+
+  // Actions
+  function importIni(text: string, filename: string): void {
+    const parsed = parseUiIni(text)
+    const found = getIniResolutions(parsed)
+    if (found.length === 0) {
+      throw new Error(`${filename} has no window positions`)
+    }
+
+    ini.value = parsed
+    iniName.value = filename
+    resolutions.value = found
+    isEnabled.value = true
+    setResolution(found[0])
+  }
+
+  /**
+   * Show another resolution's positions. Windows moved in the editor go back
+   * to the ini's positions.
+   */
+  function setResolution(value: string): void {
+    if (!ini.value) return
+    resolution.value = value
+    windows.value = readWindowLayouts(ini.value, value)
+  }
+
+  function setEnabled(value: boolean): void {
+    isEnabled.value = value
+  }
+
+  /** The section a top-level piece's position is stored under */
+  function getWindowName(piece: ScreenPiece): string {
+    return piece.item ?? piece.screenId
+  }
+
+  /**
+   * The imported layout of a top-level piece, while the overlay is shown
+   */
+  function getWindowLayout(piece: ScreenPiece): Partial<WindowLayout> | null {
+    if (!isOverlayShown.value || piece.parentId) return null
+    const name = windowNames.value.get(getWindowName(piece).toLowerCase())
+    return name ? windows.value.get(name) ?? null : null
+  }
+
+  function setWindowLayout(piece: ScreenPiece, layout: Partial<WindowLayout>): void {
+    const name = windowNames.value.get(getWindowName(piece).toLowerCase()) ?? getWindowName(piece)
+    const next = new Map(windows.value)
+    next.set(name, { ...next.get(name), ...layout })
+    windows.value = next
+  }
+
+  /**
+   * An ini of the editor's arrangement: every window in the project at its
+   * imported position, whether or not the overlay is shown, or its XML
+   * location when the ini doesn't have it. Written into the imported ini,
+   * if any, so its other settings are kept.
+   */
+  function exportIni(): { filename: string; text: string } {
+    const layouts = new Map<string, Partial<WindowLayout>>()
+    for (const file of projectStore.project.files) {
+      for (const screen of file.screens) {
+        // Referenced screens are pages and sub-screens, not windows
+        if (screen.type !== 'Screen' || screen.isReferenced) continue
+        const name = windowNames.value.get(getWindowName(screen).toLowerCase())
+        const imported = (name && windows.value.get(name)) || {}
+        layouts.set(name ?? getWindowName(screen), {
+          x: screen.location.x,
+          y: screen.location.y,
+          width: screen.size.cx,
+          height: screen.size.cy,
+          ...imported,
+        })
+      }
+    }
+
+    const base = ini.value ?? { sections: [] }
+    return {
+      filename: iniName.value ?? DEFAULT_INI_NAME,
+      text: serializeUiIni(writeWindowLayouts(base, layouts, resolution.value)),
+    }
+  }
+
+  function clear(): void {
+    ini.value = null
+    iniName.value = null
+    resolutions.value = []
+    resolution.value = ''
+    windows.value = new Map()
+    isEnabled.value = true
+  }
+
+  return {
+    // State
+    ini,
+    iniName,
+    resolutions,
+    resolution,
+    windows,
+    isEnabled,
+
+    // Getters
+    hasLayout,
+    isOverlayShown,
+
+    // Actions
+    importIni,
+    setResolution,
+    setEnabled,
+    getWindowName,
+    getWindowLayout,
+    setWindowLayout,
+    exportIni,
+    clear,
+  }
+})
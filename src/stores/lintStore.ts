@@ -0,0 +1,143 @@
+/**
+ * Lint Store
+ *
+ * Runs the lint rules over the project as it is edited, with per-rule
+ * settings and quick fixes that go through undo history
+ */
+
+import { defineStore } from 'pinia'
+import { ref, shallowRef, computed, watch } from 'vue'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import { isBaseFile } from '@/models/project/Project'
+import {
+  runLint,
+  getRuleSetting,
+  type LintRule,
+  type LintRuleSetting,
+  type LintProblem,
+} from '@/core/lint/LintEngine'
+import { LINT_RULES } from '@/core/lint/LintRules'
+import { useElementsStore } from './elementsStore'
+import { useProjectStore } from './projectStore'
+import { useTextureStore } from './textureStore'
+import { useHistoryStore } from './historyStore'
+
+/** Delay after the last edit before the rules run again */
+const LINT_DELAY_MS = 300
+
+export const useLintStore = defineStore('lint', () => {
+  const elementsStore = useElementsStore()
+  const projectStore = useProjectStore()
+  const textureStore = useTextureStore()
+  const historyStore = useHistoryStore()
+
+  // State
+  const rules = shallowRef<LintRule[]>([...LINT_RULES])
+  const settings = ref<Map<string, LintRuleSetting>>(new Map()) // Overrides of rule defaults
+  const problems = shallowRef<LintProblem[]>([])
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  // Getters
+  const config = computed(() => ({ rules: Object.fromEntries(settings.value) }))
+
+  function getSetting(rule: LintRule): LintRuleSetting {
+    return getRuleSetting(rule, config.value)
+  }
+
+  // Actions
+  function run(): void {
+    clearTimeout(timer)
+    timer = undefined
+
+    // Without any textures loaded there is nothing to check filenames against
+    const textures = textureStore.textureList
+    const textureFiles = textures.length > 0
+      ? new Set(textures.map((texture) => texture.filename.toLowerCase()))
+      : undefined
+
+    // Base files can't be edited, so their problems are left to the base folder
+    const baseFiles = new Set(projectStore.project.files.filter(isBaseFile).map((file) => file.filename))
+    problems.value = runLint({ project: projectStore.project, textureFiles }, rules.value, config.value)
+      .filter((problem) => !baseFiles.has(problem.filename))
+  }
+
+  function schedule(): void {
+    clearTimeout(timer)
+    timer = setTimeout(run, LINT_DELAY_MS)
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   */
+  function registerRule(rule: LintRule): void {
+    rules.value = [...rules.value.filter((r) => r.id !== rule.id), rule]
+  }
+
+  function setRuleSetting(id: string, setting: LintRuleSetting): void {
+    const next = new Map(settings.value)
+    const rule = rules.value.find((r) => r.id === id)
+    if (rule && setting === rule.severity) {
+      next.delete(id)
+    } else {
+      next.set(id, setting)
+    }
+    settings.value = next
+  }
+
+  /**
+   * Apply a problem's quick fix as one undoable edit
+   */
+  function applyFix(problem: LintProblem): boolean {
+    const fix = problem.fix
+    if (!fix) return false
+
+    // Only the active file's pieces are in the elements store
+    if (projectStore.activeFileName !== problem.filename) {
+      projectStore.setActiveFile(problem.filename)
+    }
+    const element = elementsStore.getElementById(fix.elementId)
+    if (!element) return false
+
+    const before = Object.fromEntries(
+      Object.keys(fix.changes).map((key) => [key, element[key as keyof ScreenPiece]])
+    ) as Partial<ScreenPiece>
+
+    elementsStore.updateElement(element.id, fix.changes)
+    historyStore.push({
+      description: fix.description,
+      undo: () => elementsStore.updateElement(element.id, before),
+      redo: () => elementsStore.updateElement(element.id, fix.changes),
+    })
+    run()
+    return true
+  }
+
+  // Every edit replaces the elements map; files and textures come and go with loads
+  watch(
+    [
+      () => elementsStore.elements,
+      () => projectStore.project,
+      () => projectStore.fileNames,
+      () => textureStore.textureList,
+    ],
+    schedule
+  )
+  watch([rules, settings], run)
+
+  return {
+    // State
+    rules,
+    settings,
+    problems,
+
+    // Getters
+    config,
+    getSetting,
+
+    // Actions
+    run,
+    registerRule,
+    setRuleSetting,
+    applyFix,
+  }
+})
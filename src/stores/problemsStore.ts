@@ -0,0 +1,68 @@
+/**
+ * Problems Store
+ *
+ * Parse and schema validation problems for each file of the project
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { ParseError } from '@/core/parser/EquiParser'
+
+/** A problem together with the file it was found in */
+export interface Problem extends ParseError {
+  filename: string
+}
+
+export const useProblemsStore = defineStore('problems', () => {
+  // State
+  const problemsByFile = ref<Map<string, ParseError[]>>(new Map())
+
+  // Getters
+  const problems = computed((): Problem[] => {
+    const result: Problem[] = []
+    for (const [filename, fileProblems] of problemsByFile.value) {
+      for (const problem of fileProblems) {
+        result.push({ ...problem, filename })
+      }
+    }
+    return result
+  })
+
+  const errorCount = computed(() => problems.value.filter((p) => p.severity !== 'warning').length)
+
+  const warningCount = computed(() => problems.value.filter((p) => p.severity === 'warning').length)
+
+  // Actions
+  function setFileProblems(filename: string, fileProblems: ParseError[]): void {
+    const newMap = new Map(problemsByFile.value)
+    if (fileProblems.length > 0) {
+      newMap.set(filename, fileProblems)
+    } else {
+      newMap.delete(filename)
+    }
+    problemsByFile.value = newMap
+  }
+
+  function clearFile(filename: string): void {
+    setFileProblems(filename, [])
+  }
+
+  function clear(): void {
+    problemsByFile.value = new Map()
+  }
+
+  return {
+    // State
+    problemsByFile,
+
+    // Getters
+    problems,
+    errorCount,
+    warningCount,
+
+    // Actions
+    setFileProblems,
+    clearFile,
+    clear,
+  }
+})
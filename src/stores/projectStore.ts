@@ -5,23 +5,71 @@
  */
 
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { UIProject, UIFile } from '@/models/project/Project'
-import { createProject, hasUnsavedChanges } from '@/models/project/Project'
+import { ref, shallowRef, computed, watch, toRaw } from 'vue'
+import type { UIProject, UIFile, OptionGroup, OptionVariant } from '@/models/project/Project'
+import type { TemplateLibrary } from '@/models/elements/Templates'
+import type { Point } from '@/models/base/Primitives'
+import {
+  createProject,
+  getAllFiles,
+  getDefaultFiles,
+  getOwnFiles,
+  hasUnsavedChanges,
+  isBaseFile,
+  markFileDirty as markProjectFileDirty,
+  markFileClean as markProjectFileClean,
+  selectOptionVariant,
+} from '@/models/project/Project'
 import { parseEquiFile, resolvePiecesReferences, isManifestFile, type ParsedEquiFile } from '@/core/parser/EquiParser'
+import { validateEquiXml } from '@/core/parser/SchemaValidator'
 import { serializeUIFile } from '@/core/parser/XmlSerializer'
+import { patchUIFile } from '@/core/parser/XmlPatcher'
+import { createUIPackage, type PackageFolder, type PackageTexture } from '@/core/export/UIPackage'
+import { canWriteToDirectory, requestWritePermission, writeTextFile } from '@/core/export/DirectoryWriter'
+import { createProjectFile, readProjectFile } from '@/core/project/ProjectFile'
+import type { LoadedProject, LoadProgress } from '@/core/project/ProjectLoader'
+import type { OptionFolder } from '@/core/project/OptionFolders'
+import { loadProjectFiles } from '@/core/project/ProjectLoaderClient'
 import { useElementsStore } from './elementsStore'
 import { useSelectionStore } from './selectionStore'
+import { useTextureStore } from './textureStore'
+import { useEditorStore } from './editorStore'
+import { useHistoryStore } from './historyStore'
+import { useSchemaStore } from './schemaStore'
+import { useProblemsStore } from './problemsStore'
+
+/** A base folder projects are laid over, such as uifiles/default */
+export interface BaseLayer {
+  name: string
+  files: File[] // XML files
+  textures: File[]
+}
 
 export const useProjectStore = defineStore('project', () => {
   const elementsStore = useElementsStore()
   const selectionStore = useSelectionStore()
+  const textureStore = useTextureStore()
+  const editorStore = useEditorStore()
+  const historyStore = useHistoryStore()
+  const schemaStore = useSchemaStore()
+  const problemsStore = useProblemsStore()
 
   // State
   const project = ref<UIProject>(createProject())
   const activeFileName = ref<string | null>(null)
   const isLoading = ref(false)
   const loadError = ref<string | null>(null)
+  const loadProgress = ref<LoadProgress | null>(null) // Set while loadFiles parses
+  // Folder the project was opened from, kept so files can be saved in place
+  const directoryHandle = shallowRef<FileSystemDirectoryHandle | null>(null)
+  // .uiforge file the project was opened from or last saved to
+  const projectFileHandle = shallowRef<FileSystemFileHandle | null>(null)
+  // Folder files are laid over when loading; kept across new projects
+  const baseLayer = shallowRef<BaseLayer | null>(null)
+  // Option variants' textures and the UI's own ones they replace, by path in the folder
+  const optionTextures = shallowRef<Map<string, File>>(new Map())
+  // Set while the elements store is being refilled, so loading isn't taken for an edit
+  let isLoadingElements = false
 
   // Getters
   const activeFile = computed((): UIFile | null => {
@@ -35,11 +83,22 @@ export const useProjectStore = defineStore('project', () => {
 
   const projectName = computed(() => project.value.name)
 
+  const canSaveToFolder = computed(() => canWriteToDirectory && directoryHandle.value !== null)
+
+  // Base files are read-only until overridden
+  const isActiveFileReadOnly = computed(() => (activeFile.value ? isBaseFile(activeFile.value) : false))
+
+  const optionGroups = computed((): OptionGroup[] => project.value.optionGroups ?? [])
+
   // Actions
   function setProjectName(name: string): void {
     project.value.name = name
   }
 
+  function setDirectoryHandle(handle: FileSystemDirectoryHandle | null): void {
+    directoryHandle.value = handle
+  }
+
   function setActiveFile(filename: string | null): void {
     activeFileName.value = filename
 
@@ -47,16 +106,45 @@ export const useProjectStore = defineStore('project', () => {
     selectionStore.clearSelection()
 
     // Load elements from the active file into the elements store
-    if (filename) {
-      const file = project.value.files.find((f) => f.filename === filename)
-      if (file) {
-        elementsStore.clear()
-        for (const screen of file.screens) {
-          elementsStore.loadElementTree(screen)
+    isLoadingElements = true
+    try {
+      if (filename) {
+        const file = project.value.files.find((f) => f.filename === filename)
+        if (file) {
+          elementsStore.clear()
+          for (const screen of file.screens) {
+            elementsStore.loadElementTree(screen)
+          }
         }
+      } else {
+        elementsStore.clear()
+      }
+    } finally {
+      isLoadingElements = false
+    }
+
+    // Base files can't be edited until they are overridden
+    elementsStore.setReadOnly(isActiveFileReadOnly.value)
+  }
+
+  // Every element edit replaces the elements map, so any change outside a
+  // reload is an edit to the active file
+  watch(
+    () => elementsStore.elements,
+    () => {
+      if (isLoadingElements || !activeFileName.value) return
+      markFileDirty(activeFileName.value)
+    },
+    { flush: 'sync' }
+  )
+
+  // Add a file's definitions to the project library, replacing same-named ones
+  function mergeTemplates(templates: TemplateLibrary): void {
+    for (const key of Object.keys(templates) as (keyof TemplateLibrary)[]) {
+      const target = project.value.templates[key] as Map<string, unknown>
+      for (const [name, value] of templates[key]) {
+        target.set(name, value)
       }
-    } else {
-      elementsStore.clear()
     }
   }
 
@@ -66,11 +154,8 @@ export const useProjectStore = defineStore('project', () => {
 
     try {
       const content = await file.text()
-      const parsed = parseEquiFile(content, file.name)
-
-      if (parsed.errors.length > 0) {
-        console.warn('Parse warnings:', parsed.errors)
-      }
+      const parsed = parseEquiFile(content, file.name, schemaStore.schema ?? undefined)
+      problemsStore.setFileProblems(file.name, parsed.errors)
 
       // Resolve internal references for this file
       resolvePiecesReferences([parsed])
@@ -79,6 +164,7 @@ export const useProjectStore = defineStore('project', () => {
       const uiFile: UIFile = {
         filename: file.name,
         screens: parsed.screens,
+        templates: parsed.templates,
         isDirty: false,
         originalXml: content,
       }
@@ -91,25 +177,7 @@ export const useProjectStore = defineStore('project', () => {
         project.value.files.push(uiFile)
       }
 
-      // Merge templates
-      for (const [key, value] of parsed.templates.textures) {
-        project.value.templates.textures.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.animations) {
-        project.value.templates.animations.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.frameTemplates) {
-        project.value.templates.frameTemplates.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.buttonTemplates) {
-        project.value.templates.buttonTemplates.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.gaugeTemplates) {
-        project.value.templates.gaugeTemplates.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.windowTemplates) {
-        project.value.templates.windowTemplates.set(key, value)
-      }
+      mergeTemplates(parsed.templates)
 
       // Set as active file
       setActiveFile(file.name)
@@ -122,140 +190,427 @@ export const useProjectStore = defineStore('project', () => {
   }
 
   async function loadFiles(files: File[]): Promise<void> {
-    // Build a map of all files by name for manifest resolution
-    const fileMap = new Map<string, File>()
-    for (const file of files) {
-      fileMap.set(file.name, file)
+    const base = baseLayer.value
+
+    // A SIDL.xml alongside the UI files describes its element types, else the base folder's
+    const isSidl = (f: File) => f.name.toLowerCase() === 'sidl.xml'
+    const sidlFile = files.find(isSidl) ?? base?.files.find(isSidl)
+    if (sidlFile) {
+      try {
+        await schemaStore.loadSchema(await sidlFile.text(), sidlFile.name)
+      } catch (err) {
+        console.warn(`Failed to load ${sidlFile.name}, keeping the current schema:`, err)
+      }
     }
 
-    // Track all parsed files for Pieces resolution
-    const allParsed: ParsedEquiFile[] = []
-
-    // Check for manifest files first (e.g., EQUI.xml)
-    const manifestFile = files.find(f => f.name === 'EQUI.xml' || f.name.toLowerCase() === 'equi.xml')
-    let orderedFiles = files
-
-    if (manifestFile) {
-      const content = await manifestFile.text()
-      const parsed = parseEquiFile(content, manifestFile.name)
-
-      if (isManifestFile(parsed) && parsed.includes) {
-        // Load files in the order specified by the manifest
-        orderedFiles = []
-        for (const includeName of parsed.includes) {
-          const file = fileMap.get(includeName)
-          if (file) {
-            orderedFiles.push(file)
-          } else {
-            console.warn(`Manifest references file not found: ${includeName}`)
-          }
-        }
-        // Add any remaining files not in manifest
-        for (const file of files) {
-          if (!orderedFiles.includes(file) && file !== manifestFile) {
-            orderedFiles.push(file)
-          }
-        }
-      }
+    // Parse off the main thread; the schema is unwrapped so it can be posted
+    isLoading.value = true
+    loadProgress.value = { loaded: 0, total: files.length }
+    let loaded: LoadedProject
+    try {
+      const schema = schemaStore.schema ? toRaw(schemaStore.schema) : undefined
+      const baseFiles = base?.files.filter((f) => !isSidl(f))
+      loaded = await loadProjectFiles(files, schema, (progress) => {
+        loadProgress.value = progress
+      }, baseFiles)
+    } finally {
+      isLoading.value = false
+      loadProgress.value = null
     }
 
-    // Load all files and collect parsed results
-    for (const file of orderedFiles) {
-      const content = await file.text()
-      const parsed = parseEquiFile(content, file.name)
+    if (loaded.includes) {
+      project.value.includes = loaded.includes
+    }
+    if (base) {
+      project.value.baseName = base.name
+    }
+    for (const name of loaded.missingIncludes) {
+      console.warn(`Manifest references file not found: ${name}`)
+    }
 
-      // Skip manifest-only files
-      if (isManifestFile(parsed)) {
+    for (const { parsed, content, layer } of loaded.files) {
+      // A base file never replaces one the project already has its own copy of
+      const existingIndex = project.value.files.findIndex((f) => f.filename === parsed.filename)
+      if (layer === 'base' && existingIndex >= 0 && !isBaseFile(project.value.files[existingIndex])) {
         continue
       }
 
-      if (parsed.errors.length > 0) {
-        console.warn(`Parse warnings for ${file.name}:`, parsed.errors)
-      }
-
-      allParsed.push(parsed)
+      problemsStore.setFileProblems(parsed.filename, parsed.errors)
 
       // Create UIFile
       const uiFile: UIFile = {
-        filename: file.name,
+        filename: parsed.filename,
         screens: parsed.screens,
+        templates: parsed.templates,
         isDirty: false,
         originalXml: content,
+        layer,
       }
 
       // Add or replace file in project
-      const existingIndex = project.value.files.findIndex((f) => f.filename === file.name)
       if (existingIndex >= 0) {
         project.value.files[existingIndex] = uiFile
       } else {
         project.value.files.push(uiFile)
       }
 
-      // Merge templates
-      for (const [key, value] of parsed.templates.textures) {
-        project.value.templates.textures.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.animations) {
-        project.value.templates.animations.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.frameTemplates) {
-        project.value.templates.frameTemplates.set(key, value)
-      }
-      for (const [key, value] of parsed.templates.buttonTemplates) {
-        project.value.templates.buttonTemplates.set(key, value)
+      mergeTemplates(parsed.templates)
+    }
+
+    // Set the first file with screens as active
+    const firstWithScreens = project.value.files.find(f => f.screens.length > 0)
+    if (firstWithScreens) {
+      setActiveFile(firstWithScreens.filename)
+    }
+  }
+
+  /**
+   * Resolve a parsed file's references to items in the project's other files
+   */
+  function resolveAgainstProject(parsed: ParsedEquiFile, exclude?: UIFile): void {
+    const others = project.value.files
+      .filter((file) => file !== exclude)
+      .map((file): ParsedEquiFile => ({
+        filename: file.filename,
+        screens: [],
+        templates: file.templates,
+        errors: [],
+        itemRegistry: new Map(file.screens.filter((s) => s.item).map((s) => [s.item as string, s])),
+        unresolvedPieces: new Map(),
+      }))
+    resolvePiecesReferences([...others, parsed])
+  }
+
+  /**
+   * Parse a folder's option variants after its own files have loaded. XML
+   * files become the variants' files and the rest their textures; the UI's
+   * own files stay in use until a variant is picked.
+   */
+  async function loadOptionGroups(folders: OptionFolder<File>[], ownTextures: File[] = []): Promise<void> {
+    const baseNames = new Set(baseLayer.value?.files.map((f) => f.name.toLowerCase()) ?? [])
+    const textures = new Map<string, File>()
+    const groups: OptionGroup[] = []
+
+    for (const folder of folders) {
+      const group: OptionGroup = { name: folder.name, variants: [], active: null }
+      for (const variantFolder of folder.variants) {
+        const variant: OptionVariant = { name: variantFolder.name, folder: variantFolder.folder, files: [], textures: [] }
+
+        for (const file of variantFolder.files) {
+          if (!file.name.toLowerCase().endsWith('.xml')) {
+            textures.set(`${variant.folder}/${file.name}`, file)
+            variant.textures.push(file.name)
+            continue
+          }
+
+          const content = await file.text()
+          const parsed = parseEquiFile(content, file.name, schemaStore.schema ?? undefined)
+          if (isManifestFile(parsed)) continue
+          resolveAgainstProject(parsed)
+          variant.files.push({
+            filename: file.name,
+            screens: parsed.screens,
+            templates: parsed.templates,
+            isDirty: false,
+            originalXml: content,
+            layer: baseNames.has(file.name.toLowerCase()) ? 'override' : undefined,
+            folder: variant.folder,
+          })
+        }
+        group.variants.push(variant)
       }
-      for (const [key, value] of parsed.templates.gaugeTemplates) {
-        project.value.templates.gaugeTemplates.set(key, value)
+      groups.push(group)
+    }
+
+    // Keep the UI's own textures that variants replace, to switch back to
+    const replaced = new Set(groups.flatMap((g) => g.variants.flatMap((v) => v.textures.map((t) => t.toLowerCase()))))
+    for (const file of ownTextures) {
+      if (replaced.has(file.name.toLowerCase())) textures.set(file.name, file)
+    }
+
+    project.value.optionGroups = groups.length > 0 ? groups : undefined
+    optionTextures.value = textures
+  }
+
+  /**
+   * Switch an option group to one of its variants, or back to the UI's own
+   * files with `variant` null, and show the result on the canvas
+   */
+  async function selectVariant(groupName: string, variant: string | null): Promise<void> {
+    const changes = selectOptionVariant(project.value, groupName, variant)
+    const schema = schemaStore.schema
+
+    for (const filename of changes.files) {
+      const file = project.value.files.find((f) => f.filename === filename)
+      if (!file) {
+        problemsStore.clearFile(filename)
+        continue
       }
-      for (const [key, value] of parsed.templates.windowTemplates) {
-        project.value.templates.windowTemplates.set(key, value)
+      // The client reads the files in use, so their definitions win
+      mergeTemplates(file.templates)
+      if (schema && file.originalXml !== undefined) {
+        problemsStore.setFileProblems(filename, validateEquiXml(file.originalXml, schema))
       }
     }
 
-    // Resolve Pieces references across all files
-    if (allParsed.length > 0) {
-      resolvePiecesReferences(allParsed)
+    for (const source of changes.textures) {
+      const path = source.folder ? `${source.folder}/${source.filename}` : source.filename
+      const baseTexture = source.folder
+        ? undefined
+        : baseLayer.value?.textures.find((t) => t.name.toLowerCase() === source.filename.toLowerCase())
+      const file = optionTextures.value.get(path) ?? baseTexture
 
-      // Update the project files with resolved references
-      for (const parsed of allParsed) {
-        const uiFile = project.value.files.find(f => f.filename === parsed.filename)
-        if (uiFile) {
-          uiFile.screens = parsed.screens
-        }
+      textureStore.removeTexture(source.filename.replace(/\.[^.]+$/, ''))
+      if (file) {
+        await textureStore.loadTexture(file, file === baseTexture)
       }
     }
 
-    // Set the first file with screens as active
-    const firstWithScreens = project.value.files.find(f => f.screens.length > 0)
-    if (firstWithScreens) {
-      setActiveFile(firstWithScreens.filename)
+    // Undo entries would edit the replaced pieces
+    const active = activeFileName.value
+    if (active && changes.files.includes(active)) {
+      historyStore.clear()
+      const stillThere = project.value.files.some((f) => f.filename === active)
+      setActiveFile(stillThere ? active : project.value.files[0]?.filename ?? null)
     }
   }
 
-  function exportActiveFile(): string | null {
+  /**
+   * Export the active file. By default only the changed parts of the original
+   * XML are rewritten; `preserveFormatting = false` regenerates the whole file.
+   */
+  function exportActiveFile(preserveFormatting = true): string | null {
     const file = activeFile.value
     if (!file) return null
-    return serializeUIFile(file)
+    return preserveFormatting ? patchUIFile(file) : serializeUIFile(file)
   }
 
-  function markFileDirty(filename: string): void {
+  /**
+   * Zip the project's own files, a regenerated EQUI.xml and the loaded
+   * textures. Files and textures from the base folder are left out; the
+   * client falls back to them.
+   */
+  async function exportPackage(): Promise<Blob | null> {
+    const files = getOwnFiles(project.value)
+    if (files.length === 0) return null
+    return createUIPackage({ ...project.value, files }, textureStore.ownTextureList)
+  }
+
+  /**
+   * Zip the UI with no variant active and every option variant in its
+   * subfolder, laid out like the folder it was opened from
+   */
+  async function exportPackageWithOptions(): Promise<Blob | null> {
+    const files = getDefaultFiles(project.value).filter((file) => !isBaseFile(file))
+    if (files.length === 0) return null
+
+    // Active variants' textures give way to the UI's own
+    const lower = (name: string) => name.toLowerCase()
+    const activeTextures = new Set(
+      optionGroups.value.flatMap((g) => g.variants.filter((v) => v.name === g.active).flatMap((v) => v.textures.map(lower)))
+    )
+    const textures: PackageTexture[] = textureStore.ownTextureList.filter((t) => !activeTextures.has(lower(t.filename)))
+    for (const [path, source] of optionTextures.value) {
+      if (!path.includes('/') && activeTextures.has(lower(path))) {
+        textures.push({ filename: path, source })
+      }
+    }
+
+    const folders: PackageFolder[] = optionGroups.value.flatMap((group) =>
+      group.variants.map((variant) => ({
+        path: variant.folder,
+        files: variant.files,
+        textures: variant.textures.flatMap((filename) => {
+          const source = optionTextures.value.get(`${variant.folder}/${filename}`)
+          return source ? [{ filename, source }] : []
+        }),
+      }))
+    )
+    return createUIPackage({ ...project.value, files }, textures, folders)
+  }
+
+  /**
+   * Write files back into the opened folder and mark them clean.
+   * Returns false when there is no writable folder to save into.
+   */
+  async function saveFiles(files: UIFile[]): Promise<boolean> {
+    const handle = directoryHandle.value
+    if (!canWriteToDirectory || !handle) return false
+
+    if (!(await requestWritePermission(handle))) {
+      throw new Error(`Permission to write to "${handle.name}" was denied`)
+    }
+
+    for (const file of files) {
+      // Variant files go back into their subfolders
+      const xml = patchUIFile(file)
+      await writeTextFile(handle, file.folder ? `${file.folder}/${file.filename}` : file.filename, xml)
+
+      // The saved text is the new baseline for format-preserving exports
+      file.originalXml = xml
+      markFileClean(file.filename, file.folder)
+    }
+    return true
+  }
+
+  async function saveActiveFile(): Promise<boolean> {
+    if (!activeFile.value) return false
+    return saveFiles([activeFile.value])
+  }
+
+  async function saveAllFiles(): Promise<boolean> {
+    return saveFiles(getAllFiles(project.value).filter((f) => f.isDirty))
+  }
+
+  /**
+   * Move a top-level window of any file, not only the active one. Windows of
+   * base files stay where they are until the file is overridden.
+   */
+  function moveWindow(filename: string, id: string, location: Point): void {
     const file = project.value.files.find((f) => f.filename === filename)
-    if (file) {
-      file.isDirty = true
+    const screen = file?.screens.find((s) => s.id === id)
+    if (!file || !screen || isBaseFile(file)) return
+
+    // The active file's pieces are edited through the elements store
+    if (filename === activeFileName.value) {
+      elementsStore.updateElement(id, { location: { ...location } })
+    } else {
+      screen.location = { ...location }
+      markFileDirty(filename)
     }
   }
 
-  function markFileClean(filename: string): void {
+  /**
+   * Copy a base file into the project so it can be edited. It is written to
+   * the project's folder on the next save.
+   */
+  function overrideFile(filename: string): void {
     const file = project.value.files.find((f) => f.filename === filename)
-    if (file) {
-      file.isDirty = false
+    if (!file || !isBaseFile(file)) return
+
+    file.layer = 'override'
+    markFileDirty(filename)
+    if (activeFileName.value === filename) {
+      elementsStore.setReadOnly(false)
+    }
+  }
+
+  /**
+   * Replace a file's contents with new XML, such as a merged version, and
+   * leave it unsaved. References to items in other files resolve against them.
+   */
+  function replaceFileContent(filename: string, content: string): void {
+    const index = project.value.files.findIndex((f) => f.filename === filename)
+    if (index < 0) return
+
+    const parsed = parseEquiFile(content, filename, schemaStore.schema ?? undefined)
+    resolveAgainstProject(parsed, project.value.files[index])
+    problemsStore.setFileProblems(filename, parsed.errors)
+
+    project.value.files[index] = {
+      filename,
+      screens: parsed.screens,
+      templates: parsed.templates,
+      isDirty: false,
+      originalXml: content,
+      layer: project.value.files[index].layer,
     }
+    mergeTemplates(parsed.templates)
+    markFileDirty(filename)
+
+    // Undo entries would edit the replaced pieces
+    historyStore.clear()
+    if (activeFileName.value === filename) {
+      setActiveFile(filename)
+    }
+  }
+
+  /**
+   * Set the folder files are laid over the next time a folder is loaded
+   */
+  function setBaseLayer(layer: BaseLayer | null): void {
+    baseLayer.value = layer
+  }
+
+  function markFileDirty(filename: string): void {
+    markProjectFileDirty(project.value, filename)
+  }
+
+  function markFileClean(filename: string, folder?: string): void {
+    markProjectFileClean(project.value, filename, folder)
+  }
+
+  /**
+   * Bundle the project, textures and editor state into a .uiforge file
+   */
+  async function exportProjectFile(): Promise<Blob> {
+    return createProjectFile(
+      project.value,
+      textureStore.textureList,
+      editorStore.getState(activeFileName.value),
+      textureStore.textureList.filter((t) => textureStore.isBaseTexture(t.name)).map((t) => t.filename),
+      optionTextures.value
+    )
+  }
+
+  /**
+   * Replace the current project with one read from a .uiforge file
+   */
+  async function openProjectFile(file: Blob, handle: FileSystemFileHandle | null = null): Promise<void> {
+    isLoading.value = true
+    loadError.value = null
+
+    try {
+      const opened = await readProjectFile(file)
+
+      project.value = opened.project
+      optionTextures.value = opened.optionTextures
+      directoryHandle.value = null
+      projectFileHandle.value = handle
+
+      textureStore.clear()
+      await textureStore.loadTextures(opened.baseTextures, true)
+      await textureStore.loadTextures(opened.textures)
+
+      const active = opened.project.files.some((f) => f.filename === opened.editor.activeFile)
+        ? opened.editor.activeFile
+        : opened.project.files.find((f) => f.screens.length > 0)?.filename ?? null
+      setActiveFile(active)
+      editorStore.restoreState(opened.editor)
+      historyStore.clear()
+      validateProject()
+    } catch (err) {
+      loadError.value = err instanceof Error ? err.message : 'Failed to open project'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Re-check every file's source XML against the current schema
+   */
+  function validateProject(): void {
+    problemsStore.clear()
+    const schema = schemaStore.schema
+    if (!schema) return
+
+    for (const file of project.value.files) {
+      if (file.originalXml !== undefined) {
+        problemsStore.setFileProblems(file.filename, validateEquiXml(file.originalXml, schema))
+      }
+    }
+  }
+
+  function setProjectFileHandle(handle: FileSystemFileHandle | null): void {
+    projectFileHandle.value = handle
   }
 
   function removeFile(filename: string): void {
     const index = project.value.files.findIndex((f) => f.filename === filename)
     if (index >= 0) {
       project.value.files.splice(index, 1)
+      problemsStore.clearFile(filename)
 
       // If removed file was active, switch to another or clear
       if (activeFileName.value === filename) {
@@ -266,8 +621,14 @@ export const useProjectStore = defineStore('project', () => {
 
   function newProject(name = 'Untitled Project'): void {
     project.value = createProject(name)
+    optionTextures.value = new Map()
     activeFileName.value = null
+    directoryHandle.value = null
+    projectFileHandle.value = null
     elementsStore.clear()
+    elementsStore.setReadOnly(false)
+    editorStore.reset()
+    problemsStore.clear()
   }
 
   function reset(): void {
@@ -281,21 +642,44 @@ export const useProjectStore = defineStore('project', () => {
     activeFileName,
     isLoading,
     loadError,
+    loadProgress,
+    directoryHandle,
+    projectFileHandle,
+    baseLayer,
+    optionTextures,
 
     // Getters
     activeFile,
     isDirty,
     fileNames,
     projectName,
+    canSaveToFolder,
+    isActiveFileReadOnly,
+    optionGroups,
 
     // Actions
     setProjectName,
+    setDirectoryHandle,
     setActiveFile,
     loadFile,
     loadFiles,
+    loadOptionGroups,
+    selectVariant,
     exportActiveFile,
+    exportPackage,
+    exportPackageWithOptions,
+    saveActiveFile,
+    saveAllFiles,
+    exportProjectFile,
+    openProjectFile,
+    validateProject,
+    setProjectFileHandle,
     markFileDirty,
     markFileClean,
+    moveWindow,
+    overrideFile,
+    replaceFileContent,
+    setBaseLayer,
     removeFile,
     newProject,
     reset,
@@ -7,13 +7,18 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { SidlSchema, ElementTypeDefinition, PropertyDefinition } from '@/core/parser/SidlParser'
-import { parseSidl, getInheritedProperties, getDefaultValues } from '@/core/parser/SidlParser'
+import { parseSidl, getInheritedProperties, getInheritanceChain, getDefaultValues } from '@/core/parser/SidlParser'
+import DEFAULT_SIDL from '@/assets/sidl/SIDL.xml?raw'
+
+/** Source name shown for the schema bundled with the editor */
+export const BUNDLED_SCHEMA_SOURCE = 'Bundled SIDL.xml'
 
 export const useSchemaStore = defineStore('schema', () => {
   // State
   const schema = ref<SidlSchema | null>(null)
   const isLoaded = ref(false)
   const loadError = ref<string | null>(null)
+  const source = ref<string | null>(null) // File the schema came from
 
   // Getters
   const elementTypes = computed(() => {
@@ -31,17 +36,25 @@ export const useSchemaStore = defineStore('schema', () => {
   })
 
   // Actions
-  async function loadSchema(xmlContent: string): Promise<void> {
+  async function loadSchema(xmlContent: string, sourceName = 'SIDL.xml', isPartial = false): Promise<void> {
     try {
       loadError.value = null
-      schema.value = parseSidl(xmlContent)
+      schema.value = { ...parseSidl(xmlContent), isPartial }
       isLoaded.value = true
+      source.value = sourceName
     } catch (err) {
       loadError.value = err instanceof Error ? err.message : 'Failed to parse schema'
       throw err
     }
   }
 
+  /**
+   * Load the schema bundled with the editor, used when no UI folder provides one
+   */
+  async function loadDefaultSchema(): Promise<void> {
+    await loadSchema(DEFAULT_SIDL, BUNDLED_SCHEMA_SOURCE, true)
+  }
+
   function getElementType(name: string): ElementTypeDefinition | undefined {
     return schema.value?.elementTypes.get(name)
   }
@@ -51,6 +64,11 @@ export const useSchemaStore = defineStore('schema', () => {
     return getInheritedProperties(schema.value, typeName)
   }
 
+  function getTypeChain(typeName: string): ElementTypeDefinition[] {
+    if (!schema.value) return []
+    return getInheritanceChain(schema.value, typeName)
+  }
+
   function getDefaults(typeName: string): Record<string, unknown> {
     if (!schema.value) return {}
     return getDefaultValues(schema.value, typeName)
@@ -60,6 +78,7 @@ export const useSchemaStore = defineStore('schema', () => {
     schema.value = null
     isLoaded.value = false
     loadError.value = null
+    source.value = null
   }
 
   return {
@@ -67,6 +86,7 @@ export const useSchemaStore = defineStore('schema', () => {
     schema,
     isLoaded,
     loadError,
+    source,
 
     // Getters
     elementTypes,
@@ -74,8 +94,10 @@ export const useSchemaStore = defineStore('schema', () => {
 
     // Actions
     loadSchema,
+    loadDefaultSchema,
     getElementType,
     getProperties,
+    getTypeChain,
     getDefaults,
     reset,
   }
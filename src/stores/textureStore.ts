@@ -11,6 +11,7 @@ import { TextureManager, type TextureData } from '@/core/texture/TextureManager'
 export const useTextureStore = defineStore('textures', () => {
   // State
   const loadedTextures = ref<Map<string, TextureData>>(new Map())
+  const baseTextures = ref<Set<string>>(new Set()) // Names of textures from the base folder
   const isLoading = ref(false)
   const loadError = ref<string | null>(null)
 
@@ -21,14 +22,26 @@ export const useTextureStore = defineStore('textures', () => {
 
   const textureList = computed(() => Array.from(loadedTextures.value.values()))
 
+  // Textures the project ships, leaving out the base folder's
+  const ownTextureList = computed(() => textureList.value.filter((texture) => !baseTextures.value.has(texture.name)))
+
   // Actions
-  async function loadTexture(file: File): Promise<TextureData | null> {
+  async function loadTexture(file: File, fromBase = false): Promise<TextureData | null> {
     isLoading.value = true
     loadError.value = null
 
     try {
       const texture = await TextureManager.loadFromFile(file)
       loadedTextures.value.set(texture.name, texture)
+
+      // A project texture replaces the base folder's copy
+      const next = new Set(baseTextures.value)
+      if (fromBase) {
+        next.add(texture.name)
+      } else {
+        next.delete(texture.name)
+      }
+      baseTextures.value = next
       return texture
     } catch (err) {
       loadError.value = err instanceof Error ? err.message : 'Failed to load texture'
@@ -39,11 +52,11 @@ export const useTextureStore = defineStore('textures', () => {
     }
   }
 
-  async function loadTextures(files: File[]): Promise<void> {
+  async function loadTextures(files: File[], fromBase = false): Promise<void> {
     for (const file of files) {
       // Only load image files
-      if (file.type.startsWith('image/') || file.name.endsWith('.tga')) {
-        await loadTexture(file)
+      if (file.type.startsWith('image/') || /\.(tga|dds)$/i.test(file.name)) {
+        await loadTexture(file, fromBase)
       }
     }
   }
@@ -52,6 +65,20 @@ export const useTextureStore = defineStore('textures', () => {
     return loadedTextures.value.get(name) || TextureManager.get(name)
   }
 
+  /**
+   * Find a texture by name, ignoring case (EQ file names are case-insensitive)
+   */
+  function findTexture(name: string): TextureData | undefined {
+    const exact = getTexture(name)
+    if (exact) return exact
+
+    const lower = name.toLowerCase()
+    for (const [key, texture] of loadedTextures.value) {
+      if (key.toLowerCase() === lower) return texture
+    }
+    return undefined
+  }
+
   function hasTexture(name: string): boolean {
     return loadedTextures.value.has(name) || TextureManager.has(name)
   }
@@ -61,14 +88,20 @@ export const useTextureStore = defineStore('textures', () => {
     TextureManager.remove(name)
   }
 
+  function isBaseTexture(name: string): boolean {
+    return baseTextures.value.has(name)
+  }
+
   function clear(): void {
     loadedTextures.value.clear()
+    baseTextures.value = new Set()
     TextureManager.clear()
   }
 
   return {
     // State
     loadedTextures,
+    baseTextures,
     isLoading,
     loadError,
 
@@ -76,12 +109,15 @@ export const useTextureStore = defineStore('textures', () => {
     textureCount,
     textureNames,
     textureList,
+    ownTextureList,
 
     // Actions
     loadTexture,
     loadTextures,
     getTexture,
+    findTexture,
     hasTexture,
+    isBaseTexture,
     removeTexture,
     clear,
   }
@@ -0,0 +1,123 @@
+/**
+ * Usages Store
+ *
+ * Find usages results and the dependency graph being shown, looked up in an
+ * index of the whole project built when they are asked for, and renames that
+ * update every usage as one undoable step
+ */
+
+import { defineStore } from 'pinia'
+import { shallowRef } from 'vue'
+import {
+  buildDependencyIndex,
+  findUsages as findNodeUsages,
+  findDependents,
+  getDependencyGraph,
+  getNodeKey,
+  type DependencyGraph,
+  type Usage,
+  type UsageNode,
+} from '@/core/references/DependencyIndex'
+import { planItemRename, planScreenIdRename, type RenamePlan } from '@/core/refactor/Rename'
+import type { ScreenPiece } from '@/models/elements/ScreenPiece'
+import { useProjectStore } from './projectStore'
+import { useHistoryStore } from './historyStore'
+import { useLintStore } from './lintStore'
+
+export const useUsagesStore = defineStore('usages', () => {
+  const projectStore = useProjectStore()
+  const historyStore = useHistoryStore()
+  const lintStore = useLintStore()
+
+  // State
+  const query = shallowRef<UsageNode | null>(null) // Node whose usages are listed
+  const usages = shallowRef<Usage[]>([])
+  const dependents = shallowRef<UsageNode[]>([]) // Everything that uses the node, directly or not
+  const graph = shallowRef<DependencyGraph | null>(null)
+  const renamePlan = shallowRef<RenamePlan | null>(null) // Rename being previewed
+  let renameNode: UsageNode | null = null // Item being renamed, unset for ScreenIDs
+
+  // Actions
+  function findUsages(node: UsageNode): void {
+    const index = buildDependencyIndex(projectStore.project)
+    query.value = node
+    usages.value = findNodeUsages(index, node)
+    dependents.value = findDependents(index, node)
+  }
+
+  function clearUsages(): void {
+    query.value = null
+    usages.value = []
+    dependents.value = []
+  }
+
+  function showGraph(node: UsageNode): void {
+    graph.value = getDependencyGraph(buildDependencyIndex(projectStore.project), node)
+  }
+
+  function closeGraph(): void {
+    graph.value = null
+  }
+
+  function startRename(node: UsageNode): void {
+    renamePlan.value = planItemRename(projectStore.project, node)
+    renameNode = node
+  }
+
+  function startScreenIdRename(piece: ScreenPiece): void {
+    renamePlan.value = planScreenIdRename(projectStore.project, piece)
+    renameNode = null
+  }
+
+  function cancelRename(): void {
+    renamePlan.value = null
+    renameNode = null
+  }
+
+  /**
+   * Apply the previewed rename as one undoable edit
+   */
+  function rename(name: string): boolean {
+    const plan = renamePlan.value
+    if (!plan || plan.validate(name) || name === plan.oldName) return false
+
+    const apply = (value: string): void => {
+      plan.apply(value)
+      for (const filename of plan.files) projectStore.markFileDirty(filename)
+      lintStore.run()
+    }
+    apply(name)
+    historyStore.push({
+      description: `Rename ${plan.title} to ${name}`,
+      undo: () => apply(plan.oldName),
+      redo: () => apply(name),
+    })
+
+    // Keep listing the usages of what was renamed
+    const node = renameNode
+    cancelRename()
+    if (query.value) {
+      findUsages(node && getNodeKey(node) === getNodeKey(query.value) ? { ...node, name } : query.value)
+    }
+    return true
+  }
+
+  return {
+    // State
+    query,
+    usages,
+    dependents,
+    graph,
+    renamePlan,
+
+    // Actions
+    findUsages,
+    clearUsages,
+    showGraph,
+    closeGraph,
+    startRename,
+    startScreenIdRename,
+    cancelRename,
+    rename,
+  }
+})
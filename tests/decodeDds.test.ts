@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { decodeDds } from '@/core/texture/TextureManager'
+import { EXAMPLES, findFiles } from './examples'
+
+interface HeaderOptions {
+  width: number
+  height: number
+  pfFlags: number
+  fourCC?: string
+  bitCount?: number
+  masks?: [number, number, number, number]
+  dxgiFormat?: number
+}
+
+/** A DDS file with the given pixel format and data */
+function makeDds(options: HeaderOptions, payload: number[]): Uint8Array {
+  const headerSize = options.dxgiFormat === undefined ? 128 : 148
+  const bytes = new Uint8Array(headerSize + payload.length)
+  const view = new DataView(bytes.buffer)
+  bytes.set([0x44, 0x44, 0x53, 0x20]) // "DDS "
+  view.setUint32(4, 124, true)
+  view.setUint32(8, 0x1007, true) // CAPS | HEIGHT | WIDTH | PIXELFORMAT
+  view.setUint32(12, options.height, true)
+  view.setUint32(16, options.width, true)
+  view.setUint32(76, 32, true)
+  view.setUint32(80, options.pfFlags, true)
+  if (options.fourCC) {
+    bytes.set([...options.fourCC].map((c) => c.charCodeAt(0)), 84)
+  }
+  view.setUint32(88, options.bitCount ?? 0, true)
+  const [r, g, b, a] = options.masks ?? [0, 0, 0, 0]
+  view.setUint32(92, r, true)
+  view.setUint32(96, g, true)
+  view.setUint32(100, b, true)
+  view.setUint32(104, a, true)
+  if (options.dxgiFormat !== undefined) view.setUint32(128, options.dxgiFormat, true)
+  bytes.set(payload, headerSize)
+  return bytes
+}
+
+function pixel(image: { width: number; data: Uint8ClampedArray }, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4
+  return [...image.data.slice(i, i + 4)]
+}
+
+/** A pixel read straight from an uncompressed or paletted fixture's bytes */
+function expectedPixel(file: Uint8Array, x: number, y: number): number[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  const width = view.getUint32(16, true)
+  const pfFlags = view.getUint32(80, true)
+  const bitCount = view.getUint32(88, true)
+
+  if (pfFlags & 0x20) {
+    const index = file[128 + 1024 + y * width + x]
+    return [...file.slice(128 + index * 4, 128 + index * 4 + 4)]
+  }
+
+  const bytesPerPixel = bitCount / 8
+  const start = 128 + (y * width + x) * bytesPerPixel
+  let value = 0
+  for (let i = 0; i < bytesPerPixel; i++) value |= file[start + i] << (i * 8)
+  value >>>= 0
+  const channel = (mask: number) => (mask ? (value & mask) >>> Math.log2(mask & -mask) : 255)
+  const alphaMask = pfFlags & 0x1 ? view.getUint32(104, true) : 0
+  return [channel(view.getUint32(92, true)), channel(view.getUint32(96, true)), channel(view.getUint32(100, true)), channel(alphaMask)]
+}
+
+describe('decodeDds fixtures', () => {
+  const files = findFiles(EXAMPLES, '.dds')
+
+  it('finds the example textures', () => {
+    expect(files.length).toBeGreaterThan(0)
+  })
+
+  for (const path of files) {
+    it(`decodes ${path.slice(EXAMPLES.length + 1)}`, () => {
+      const file = new Uint8Array(readFileSync(path))
+      const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+      const image = decodeDds(file)
+
+      expect(image.width).toBe(view.getUint32(16, true))
+      expect(image.height).toBe(view.getUint32(12, true))
+      expect(image.data.length).toBe(image.width * image.height * 4)
+
+      const samples = [
+        [0, 0],
+        [image.width - 1, 0],
+        [image.width >> 1, image.height >> 1],
+        [image.width - 1, image.height - 1],
+      ]
+      for (const [x, y] of samples) {
+        expect(pixel(image, x, y)).toEqual(expectedPixel(file, x, y))
+      }
+    })
+  }
+})
+
+describe('decodeDds formats', () => {
+  // Color block: color0 red, color1 blue; pixel 0 uses color0, pixel 1 color1
+  const redBlueBlock = [0x00, 0xf8, 0x1f, 0x00, 0b0100, 0, 0, 0]
+
+  it('decodes DXT1', () => {
+    const image = decodeDds(makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DXT1' }, redBlueBlock))
+    expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 255])
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 255, 255])
+    expect(pixel(image, 3, 3)).toEqual([255, 0, 0, 255])
+  })
+
+  it('decodes DXT1 punch-through alpha', () => {
+    // color0 < color1 makes index 3 transparent black
+    const block = [0x1f, 0x00, 0x00, 0xf8, 0b11, 0, 0, 0]
+    const image = decodeDds(makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DXT1' }, block))
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 0])
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 255, 255])
+  })
+
+  it('clips blocks at the image edge', () => {
+    const image = decodeDds(makeDds({ width: 2, height: 3, pfFlags: 0x4, fourCC: 'DXT1' }, redBlueBlock))
+    expect(image.data.length).toBe(2 * 3 * 4)
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 255, 255])
+  })
+
+  it('decodes DXT3 explicit alpha', () => {
+    const alpha = [0x0f, 0x80, 0, 0, 0, 0, 0, 0] // Pixels 0-3: 15, 0, 0, 8
+    const image = decodeDds(makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DXT3' }, [...alpha, ...redBlueBlock]))
+    expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 255])
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 255, 0])
+    expect(pixel(image, 3, 0)).toEqual([255, 0, 0, 136])
+  })
+
+  it('decodes DXT5 interpolated alpha', () => {
+    // alpha0 255, alpha1 0; pixels 0-2 use indices 0, 1 and 2
+    const alpha = [255, 0, 0b10001000, 0, 0, 0, 0, 0]
+    const image = decodeDds(makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DXT5' }, [...alpha, ...redBlueBlock]))
+    expect(pixel(image, 0, 0)[3]).toBe(255)
+    expect(pixel(image, 1, 0)[3]).toBe(0)
+    expect(pixel(image, 2, 0)[3]).toBe(219)
+  })
+
+  it('decodes DX10 block-compressed and RGBA surfaces', () => {
+    const bc1 = decodeDds(makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DX10', dxgiFormat: 71 }, redBlueBlock))
+    expect(pixel(bc1, 1, 0)).toEqual([0, 0, 255, 255])
+
+    const rgba = decodeDds(makeDds({ width: 1, height: 1, pfFlags: 0x4, fourCC: 'DX10', dxgiFormat: 28 }, [10, 20, 30, 40]))
+    expect(pixel(rgba, 0, 0)).toEqual([10, 20, 30, 40])
+
+    const bgra = decodeDds(makeDds({ width: 1, height: 1, pfFlags: 0x4, fourCC: 'DX10', dxgiFormat: 87 }, [10, 20, 30, 40]))
+    expect(pixel(bgra, 0, 0)).toEqual([30, 20, 10, 40])
+  })
+
+  it('decodes uncompressed RGB and RGBA', () => {
+    const rgb = decodeDds(
+      makeDds({ width: 2, height: 1, pfFlags: 0x40, bitCount: 24, masks: [0xff0000, 0xff00, 0xff, 0] }, [1, 2, 3, 4, 5, 6])
+    )
+    expect(pixel(rgb, 0, 0)).toEqual([3, 2, 1, 255])
+    expect(pixel(rgb, 1, 0)).toEqual([6, 5, 4, 255])
+
+    const rgba = decodeDds(
+      makeDds({ width: 1, height: 1, pfFlags: 0x41, bitCount: 32, masks: [0xff0000, 0xff00, 0xff, 0xff000000] }, [1, 2, 3, 4])
+    )
+    expect(pixel(rgba, 0, 0)).toEqual([3, 2, 1, 4])
+
+    // 16-bit 5:6:5 is scaled up to 0-255
+    const rgb565 = decodeDds(
+      makeDds({ width: 1, height: 1, pfFlags: 0x40, bitCount: 16, masks: [0xf800, 0x07e0, 0x001f, 0] }, [0x1f, 0xf8])
+    )
+    expect(pixel(rgb565, 0, 0)).toEqual([255, 0, 255, 255])
+  })
+
+  it('decodes luminance', () => {
+    const image = decodeDds(makeDds({ width: 2, height: 1, pfFlags: 0x20000, bitCount: 8, masks: [0xff, 0, 0, 0] }, [0, 200]))
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 255])
+    expect(pixel(image, 1, 0)).toEqual([200, 200, 200, 255])
+  })
+
+  it('decodes paletted surfaces', () => {
+    const palette = new Array(1024).fill(0)
+    palette.splice(4, 4, 9, 8, 7, 6)
+    const image = decodeDds(makeDds({ width: 2, height: 1, pfFlags: 0x20, bitCount: 8 }, [...palette, 1, 0]))
+    expect(pixel(image, 0, 0)).toEqual([9, 8, 7, 6])
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 0, 0])
+  })
+})
+
+describe('decodeDds errors', () => {
+  it('rejects a file shorter than the header', () => {
+    expect(() => decodeDds(new Uint8Array(64))).toThrow(/too short/)
+  })
+
+  it('rejects a bad magic number', () => {
+    const file = makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DXT1' }, [0, 0, 0, 0, 0, 0, 0, 0])
+    file[0] = 0x58
+    expect(() => decodeDds(file)).toThrow(/bad magic/)
+  })
+
+  it('rejects truncated block data', () => {
+    expect(() => decodeDds(makeDds({ width: 8, height: 8, pfFlags: 0x4, fourCC: 'DXT5' }, new Array(16).fill(0)))).toThrow(
+      /Truncated DXT5/
+    )
+  })
+
+  it('rejects truncated uncompressed and paletted data', () => {
+    const rgb = makeDds({ width: 4, height: 4, pfFlags: 0x40, bitCount: 24, masks: [0xff0000, 0xff00, 0xff, 0] }, [1, 2, 3])
+    expect(() => decodeDds(rgb)).toThrow(/Truncated/)
+    expect(() => decodeDds(makeDds({ width: 4, height: 4, pfFlags: 0x20, bitCount: 8 }, new Array(1024).fill(0)))).toThrow(
+      /Truncated/
+    )
+  })
+
+  it('rejects a truncated DX10 header', () => {
+    const file = makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'DX10' }, [])
+    expect(() => decodeDds(file)).toThrow(/DX10 header/)
+  })
+
+  it('rejects unsupported compression', () => {
+    const file = makeDds({ width: 4, height: 4, pfFlags: 0x4, fourCC: 'ATI2' }, new Array(16).fill(0))
+    expect(() => decodeDds(file)).toThrow(/Unsupported DDS compression: ATI2/)
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * The example UIs the tests run against
+ */
+
+import { readdirSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+
+export const EXAMPLES = join(__dirname, '..', 'Example UIs')
+
+/**
+ * Every file under a folder with the given extension, in path order
+ */
+export function findFiles(dir: string, extension: string): string[] {
+  return readdirSync(dir)
+    .sort()
+    .flatMap((name) => {
+      const path = join(dir, name)
+      if (statSync(path).isDirectory()) return findFiles(path, extension)
+      return name.toLowerCase().endsWith(extension) ? [path] : []
+    })
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { parseEquiFile, resolvePiecesReferences, type ParsedEquiFile } from '@/core/parser/EquiParser'
+import { runLint } from '@/core/lint/LintEngine'
+import { duplicateScreenIdRule } from '@/core/lint/LintRules'
+import { createProject } from '@/models/project/Project'
+import { useElementsStore } from '@/stores/elementsStore'
+
+function parse(xml: string): ParsedEquiFile {
+  const parsed = parseEquiFile(xml, 'EQUI_Test.xml')
+  resolvePiecesReferences([parsed])
+  return parsed
+}
+
+function lint(parsed: ParsedEquiFile) {
+  const project = createProject()
+  project.files = [{ filename: parsed.filename, screens: parsed.screens, templates: parsed.templates, isDirty: false }]
+  return runLint({ project }, [duplicateScreenIdRule])
+}
+
+describe('duplicate ScreenIDs', () => {
+  it('suggest a different name for each duplicate', () => {
+    const label = '<Label><ScreenID>Name</ScreenID></Label>'
+    const problems = lint(parse(`<XML><Screen item="W"><ScreenID>W</ScreenID>${label.repeat(4)}</Screen></XML>`))
+    expect(problems.map((problem) => problem.fix?.changes.screenId)).toEqual(['Name2', 'Name3', 'Name4'])
+  })
+
+  describe('in a <Pieces> child', () => {
+    beforeEach(() => setActivePinia(createPinia()))
+
+    it('rename every copy of its definition', () => {
+      const xml = [
+        '<XML>',
+        '<Label item="A"><ScreenID>Name</ScreenID></Label>',
+        '<Label item="B"><ScreenID>Name</ScreenID></Label>',
+        '<Screen item="W"><ScreenID>W</ScreenID><Pieces>A</Pieces><Pieces>B</Pieces></Screen>',
+        '<Screen item="V"><ScreenID>V</ScreenID><Pieces>B</Pieces></Screen>',
+        '</XML>',
+      ].join('')
+      const parsed = parse(xml)
+      const elementsStore = useElementsStore()
+      parsed.screens.forEach((screen) => elementsStore.loadElementTree(screen))
+
+      const problems = lint(parsed)
+      expect(problems).toHaveLength(1)
+      const fix = problems[0].fix!
+      elementsStore.updateElement(fix.elementId, fix.changes)
+
+      const [, definitionB, windowW, windowV] = parsed.screens
+      expect(fix.elementId).toBe(windowW.children[1].id)
+      expect(windowW.children.map((child) => child.screenId)).toEqual(['Name', 'Name2'])
+      expect(windowV.children[0].screenId).toBe('Name2')
+      expect(definitionB.screenId).toBe('Name2')
+    })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { parseEquiFile, resolvePiecesReferences } from '@/core/parser/EquiParser'
+import { planItemRename, planScreenIdRename } from '@/core/refactor/Rename'
+import { createProject } from '@/models/project/Project'
+
+function createWindowProject() {
+  const xml = '<XML><Screen item="BuffWindow"><ScreenID>BuffWindow</ScreenID></Screen></XML>'
+  const parsed = parseEquiFile(xml, 'EQUI_BuffWindow.xml')
+  resolvePiecesReferences([parsed])
+  const project = createProject()
+  project.files = [{ filename: parsed.filename, screens: parsed.screens, templates: parsed.templates, isDirty: false }]
+  project.includes = ['EQUI_Templates.xml', 'EQUI_BuffWindow.xml']
+  return project
+}
+
+describe('renaming an item', () => {
+  it('lists the manifest Include it leaves alone', () => {
+    const plan = planItemRename(createWindowProject(), { kind: 'pieces', name: 'BuffWindow' })
+    expect(plan.occurrences).toEqual([{ filename: 'EQUI_BuffWindow.xml', description: 'Screen item' }])
+    expect(plan.skipped).toEqual([
+      { filename: 'EQUI.xml', description: 'Include EQUI_BuffWindow.xml names the file, which keeps its name' },
+    ])
+  })
+
+  it('skips nothing when no Include is named after the item', () => {
+    const plan = planItemRename(createWindowProject(), { kind: 'pieces', name: 'Other' })
+    expect(plan.skipped).toEqual([])
+  })
+})
+
+describe('renaming a ScreenID', () => {
+  it('finds a sibling with the new name under any copy', () => {
+    const xml = [
+      '<XML>',
+      '<Label item="A"><ScreenID>A</ScreenID></Label>',
+      '<Label item="B"><ScreenID>B</ScreenID></Label>',
+      '<Screen item="W"><ScreenID>W</ScreenID><Pieces>A</Pieces></Screen>',
+      '<Screen item="V"><ScreenID>V</ScreenID><Pieces>A</Pieces><Pieces>B</Pieces></Screen>',
+      '</XML>',
+    ].join('')
+    const parsed = parseEquiFile(xml, 'EQUI_Test.xml')
+    resolvePiecesReferences([parsed])
+    const project = createProject()
+    project.files = [{ filename: parsed.filename, screens: parsed.screens, templates: parsed.templates, isDirty: false }]
+
+    const plan = planScreenIdRename(project, parsed.screens[2].children[0])
+    expect(plan.validate('B')).toBe('V already has a B')
+    expect(plan.validate('C')).toBeNull()
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { dirname, basename } from 'node:path'
+import { parseEquiFile, resolvePiecesReferences, isManifestFile, type ParsedEquiFile } from '@/core/parser/EquiParser'
+import { serializeUIFile } from '@/core/parser/XmlSerializer'
+import { patchUIFile } from '@/core/parser/XmlPatcher'
+import type { UIFile } from '@/models/project/Project'
+import { EXAMPLES, findFiles } from './examples'
+
+// Editor bookkeeping that differs between parses of the same XML. A raw
+// property's `after` and `earlier` are where it sat in the source, which regeneration
+// reorders; its written position is checked by serializing twice instead.
+const UNSTABLE_KEYS = new Set(['id', 'parentId', 'sourceId', 'after', 'earlier'])
+
+/** A parsed model as plain data, for comparing two parses */
+function normalize(value: unknown): unknown {
+  if (value instanceof Map) {
+    return [...value].map(([key, entry]) => [key, normalize(entry)])
+  }
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, entry]) => !UNSTABLE_KEYS.has(key) && entry !== undefined)
+        .map(([key, entry]) => [key, normalize(entry)])
+    )
+  }
+  return value
+}
+
+function toUIFile(parsed: ParsedEquiFile, originalXml?: string): UIFile {
+  return { filename: parsed.filename, screens: parsed.screens, templates: parsed.templates, isDirty: false, originalXml }
+}
+
+/** Parse a folder's files together so Pieces references resolve across them */
+function parseFolder(sources: { name: string; content: string }[]): ParsedEquiFile[] {
+  const parsed = sources.map((source) => parseEquiFile(source.content, source.name))
+  resolvePiecesReferences(parsed)
+  return parsed.filter((file) => !isManifestFile(file))
+}
+
+// Example files by folder; option variant subfolders are loaded on their own
+const folders = new Map<string, { name: string; content: string }[]>()
+for (const path of findFiles(EXAMPLES, '.xml')) {
+  if (basename(path).toLowerCase() === 'sidl.xml') continue
+  const folder = dirname(path)
+  folders.set(folder, [...(folders.get(folder) ?? []), { name: basename(path), content: readFileSync(path, 'utf8') }])
+}
+
+describe('round trip of the example UIs', () => {
+  for (const [folder, sources] of folders) {
+    describe(folder.slice(EXAMPLES.length + 1), () => {
+      const parsed = new Map<string, ParsedEquiFile>()
+      const reparsed = new Map<string, ParsedEquiFile>()
+      const serialized = new Map<string, string>()
+
+      beforeAll(() => {
+        for (const file of parseFolder(sources)) {
+          parsed.set(file.filename, file)
+          serialized.set(file.filename, serializeUIFile(toUIFile(file)))
+        }
+        const again = parseFolder([...serialized].map(([name, content]) => ({ name, content })))
+        for (const file of again) reparsed.set(file.filename, file)
+      })
+
+      for (const source of sources) {
+        if (source.name.toLowerCase() === 'equi.xml') continue
+
+        it(`${source.name} parses back to the same model`, () => {
+          const file = parsed.get(source.name)
+          const again = reparsed.get(source.name)
+          expect(file?.errors).toEqual([])
+          expect(again).toBeDefined()
+          expect(normalize(again?.screens)).toEqual(normalize(file?.screens))
+          expect(normalize(again?.templates)).toEqual(normalize(file?.templates))
+          expect(serializeUIFile(toUIFile(again!))).toBe(serialized.get(source.name))
+        })
+
+        it(`${source.name} is unchanged when patched without edits`, () => {
+          const file = parsed.get(source.name)!
+          expect(patchUIFile(toUIFile(file, source.content))).toBe(source.content)
+        })
+      }
+    })
+  }
+
+  it('covers every example file', () => {
+    const count = [...folders.values()].flat().filter((source) => source.name.toLowerCase() !== 'equi.xml').length
+    expect(count).toBe(108)
+  })
+})
+
+describe('raw properties on regeneration', () => {
+  it('follow the nearest earlier property that is written', () => {
+    const xml = [
+      '<XML>',
+      '  <Label item="L">',
+      '    <ScreenID>L</ScreenID>',
+      '    <Size><CX>10</CX><CY>10</CY></Size>',
+      '    <RelativePosition>false</RelativePosition>',
+      '    <Unmodeled>1</Unmodeled>',
+      '    <AutoStretch>true</AutoStretch>',
+      '  </Label>',
+      '</XML>',
+    ].join('\n')
+    const out = serializeUIFile(toUIFile(parseEquiFile(xml, 'EQUI_Test.xml')))
+    expect(out.indexOf('<Unmodeled>')).toBeGreaterThan(out.indexOf('</Size>'))
+    expect(out.indexOf('<Unmodeled>')).toBeLessThan(out.indexOf('<AutoStretch>'))
+  })
+})
+
+describe('unresolved references on regeneration', () => {
+  it('keep their place among the resolved ones', () => {
+    const xml = [
+      '<XML>',
+      '  <Label item="A"><ScreenID>A</ScreenID></Label>',
+      '  <Label item="B"><ScreenID>B</ScreenID></Label>',
+      '  <Screen item="W">',
+      '    <ScreenID>W</ScreenID>',
+      '    <Pieces>A</Pieces>',
+      '    <Pieces>Missing</Pieces>',
+      '    <Pieces>B</Pieces>',
+      '  </Screen>',
+      '</XML>',
+    ].join('\n')
+    const parsed = parseEquiFile(xml, 'EQUI_Test.xml')
+    resolvePiecesReferences([parsed])
+    const out = serializeUIFile(toUIFile(parsed))
+    expect(out.match(/<Pieces>\w+<\/Pieces>/g)).toEqual(['<Pieces>A</Pieces>', '<Pieces>Missing</Pieces>', '<Pieces>B</Pieces>'])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { parseSidl } from '@/core/parser/SidlParser'
+import { validateEquiXml } from '@/core/parser/SchemaValidator'
+import { EXAMPLES, findFiles } from './examples'
+
+const SIDL = readFileSync(`${__dirname}/../src/assets/sidl/SIDL.xml`, 'utf8')
+const bundled = { ...parseSidl(SIDL), isPartial: true }
+
+// Mistakes in the example UIs themselves, which validation should catch
+const KNOWN_MISTAKES: Record<string, string[]> = {
+  'AYA_SoR/AYADefaultish/EQUI_GroupWindow.xml': ['<BottomAnchorOffset> should be a number, found ""'],
+  'AYA_SoR/Bandolier/Square/EQUI_BandolierWnd.xml': ['<CY> should be a number, found "25x`"'],
+  'AYA_SoR/Bandolier/Square10bags/EQUI_BandolierWnd.xml': ['<CY> should be a number, found "25x`"'],
+  'AYA_SoR/EQUI_Animations.xml': ['<Y> should be a number, found ""'],
+  'AYA_SoR/EQUI_BandolierWnd.xml': ['<CY> should be a number, found "25x`"'],
+  'AYA_SoR/EQUI_MapViewWnd.xml': ['<BottomAnchorOffset> should be a number, found ""'],
+  'BalforUI/EQUI_PlayerWindow.xml': ['<AlignLeft> should be true or false, found "fasle"'],
+}
+
+describe('validating the example UIs against the bundled SIDL', () => {
+  for (const path of findFiles(EXAMPLES, '.xml')) {
+    const name = path.slice(EXAMPLES.length + 1)
+
+    it(`${name} has no errors besides its own mistakes`, () => {
+      const problems = validateEquiXml(readFileSync(path, 'utf8'), bundled)
+      const errors = problems.filter((problem) => problem.severity !== 'warning').map((problem) => problem.message)
+      expect(errors).toEqual(KNOWN_MISTAKES[name] ?? [])
+    })
+  }
+
+  it('knows every property of the stock templates', () => {
+    const problems = validateEquiXml(readFileSync(`${EXAMPLES}/AYA_SoR/EQUI_Templates.xml`, 'utf8'), bundled)
+    expect(problems).toEqual([])
+  })
+})
+
+describe('unknown properties', () => {
+  const xml = '<XML><Label item="L"><ScreenID>L</ScreenID><Colour>1</Colour></Label></XML>'
+
+  it('are warnings against the bundled SIDL', () => {
+    expect(validateEquiXml(xml, bundled)).toMatchObject([{ element: 'Colour', severity: 'warning', item: 'L' }])
+  })
+
+  it('are errors against a complete SIDL', () => {
+    expect(validateEquiXml(xml, parseSidl(SIDL))).toMatchObject([{ element: 'Colour', severity: 'error', item: 'L' }])
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { decodeXml, scanXml, XmlSyntaxError } from '@/core/parser/XmlScanner'
+
+describe('decodeXml', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeXml('&lt;a&gt; &quot;b&quot; &apos;c&apos; &amp; &#65;&#x42;')).toBe('<a> "b" \'c\' & AB')
+  })
+
+  it('does not decode the text a reference decodes to', () => {
+    expect(decodeXml('&#38;lt;')).toBe('&lt;')
+    expect(decodeXml('&#x26;amp;')).toBe('&amp;')
+    expect(decodeXml('&amp;#60;')).toBe('&#60;')
+  })
+
+  it('leaves unknown entities alone', () => {
+    expect(decodeXml('&nbsp; &LT;')).toBe('&nbsp; &LT;')
+  })
+
+  it('rejects a reference past the last code point, at its offset', () => {
+    expect(() => decodeXml('&#x110000;')).toThrow(XmlSyntaxError)
+    expect(decodeXml('&#x10FFFF;')).toBe('\u{10FFFF}')
+
+    let error: unknown
+    try {
+      scanXml('<A>ab&#1114112;</A>')
+    } catch (err) {
+      error = err
+    }
+    expect(error).toBeInstanceOf(XmlSyntaxError)
+    expect((error as XmlSyntaxError).offset).toBe(5)
+  })
+})
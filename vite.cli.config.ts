@@ -0,0 +1,25 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Builds the uiforge command-line tool into dist-cli/uiforge.js
+export default defineConfig({
+  // public/ holds the editor's static files, which the CLI has no use for
+  publicDir: false,
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src'),
+    },
+  },
+  build: {
+    ssr: resolve(__dirname, 'src/cli/index.ts'),
+    outDir: 'dist-cli',
+    target: 'node20',
+    sourcemap: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'uiforge.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})